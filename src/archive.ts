@@ -0,0 +1,292 @@
+import { readFile, writeFile } from "node:fs/promises";
+import { setTimeout } from "node:timers/promises";
+
+import { BrowserContext, Response, Route } from "@playwright/test";
+
+import { getVersion } from "./config.js";
+import { Logger } from "./logging.js";
+import {
+  ArchiveMiss,
+  ArchiveMode,
+  ArchiveSummary,
+  Path,
+  RunConfig,
+  VersionNumber,
+} from "./types.js";
+
+interface ArchivedHeader {
+  name: string;
+  value: string;
+}
+
+// A response received while recording, along with the request it was
+// received for.
+interface ArchivedResponse {
+  method: string;
+  url: string;
+  status: number;
+  statusText: string;
+  headers: ArchivedHeader[];
+  // The (decoded) body, base64 encoded, or null if the response had no
+  // body that could be read (e.g., redirects).
+  body: string | null;
+}
+
+// The format of the files written with --record, and read with --replay.
+interface Archive {
+  version: VersionNumber;
+  url: string;
+  browser: string;
+  created: string;
+  responses: ArchivedResponse[];
+}
+
+// Responses are matched to requests by method and URL (i.e., request
+// headers and bodies are ignored).
+const keyForRequest = (method: string, url: string): string => {
+  return `${method} ${url}`;
+};
+
+const isArchivedResponse = (x: unknown): boolean => {
+  if (typeof x !== "object" || x === null) {
+    return false;
+  }
+  const { method, url, status, headers, body } = x as Record<string, unknown>;
+  return (
+    typeof method === "string" &&
+    typeof url === "string" &&
+    typeof status === "number" &&
+    Array.isArray(headers) &&
+    (body === null || typeof body === "string")
+  );
+};
+
+const loadArchive = async (path: Path): Promise<Archive> => {
+  let archiveData: unknown;
+  try {
+    archiveData = JSON.parse(await readFile(path, "utf8"));
+  } catch (err: unknown) {
+    throw new Error(
+      `Unable to read --replay archive "${path}": ` + (err as Error).toString(),
+    );
+  }
+  const responses = (archiveData as Partial<Archive> | null)?.responses;
+  if (!Array.isArray(responses) || !responses.every(isArchivedResponse)) {
+    throw new Error(
+      `Invalid --replay archive "${path}". Must be a file written with ` +
+        "the --record argument.",
+    );
+  }
+  return archiveData as Archive;
+};
+
+// The body has already been decoded, so headers describing how it was
+// encoded for the original response no longer apply.
+const ignoredReplayHeaderNames = [
+  "content-encoding",
+  "content-length",
+  "transfer-encoding",
+];
+
+const headersForReplay = (
+  headers: ArchivedHeader[],
+): Record<string, string> => {
+  const replayHeaders: Record<string, string> = {};
+  for (const { name, value } of headers) {
+    const lowerName = name.toLowerCase();
+    if (ignoredReplayHeaderNames.includes(lowerName)) {
+      continue;
+    }
+    // Playwright expects repeated Set-Cookie headers to be separated with
+    // newlines. Other repeated headers can be combined into a list.
+    const separator = lowerName === "set-cookie" ? "\n" : ", ";
+    const prevValue = replayHeaders[lowerName] as string | undefined;
+    replayHeaders[lowerName] =
+      prevValue === undefined ? value : prevValue + separator + value;
+  }
+  return replayHeaders;
+};
+
+const archivedResponseFor = async (
+  response: Response,
+): Promise<ArchivedResponse> => {
+  const request = response.request();
+  let body: string | null = null;
+  try {
+    body = (await response.body()).toString("base64");
+  } catch {
+    // Redirect responses (and responses whose bodies were discarded by the
+    // browser) don't have a body we can read.
+  }
+  return {
+    method: request.method(),
+    url: request.url(),
+    status: response.status(),
+    statusText: response.statusText(),
+    headers: await response.headersArray(),
+    body: body,
+  };
+};
+
+export interface ArchiveSession {
+  // Describes the session, after writing the archive if recording. This
+  // has to be called before the browser context is closed. Requests made
+  // after this (while replaying) are still served from the archive.
+  finish: () => Promise<ArchiveSummary>;
+}
+
+const startRecording = (
+  logger: Logger,
+  context: BrowserContext,
+  runConfig: RunConfig,
+  path: Path,
+): ArchiveSession => {
+  // Responses are kept in the order they were received (instead of the
+  // order their bodies finished loading in), for replaying them in order.
+  const receivedResponses: (ArchivedResponse | undefined)[] = [];
+  const pendingResponses: Promise<void>[] = [];
+  let isFinished = false;
+  context.on("response", (response) => {
+    const index = receivedResponses.length;
+    receivedResponses.push(undefined);
+    const pendingResponse = archivedResponseFor(response)
+      .then((archivedResponse) => {
+        if (!isFinished) {
+          receivedResponses[index] = archivedResponse;
+        }
+      })
+      .catch((err: unknown) => {
+        logger.verbose(`Unable to record "${response.url()}": `, err);
+      });
+    pendingResponses.push(pendingResponse);
+  });
+
+  return {
+    finish: async () => {
+      // Responses that are still being received (e.g., streams that are
+      // never closed) by the time the page would time out aren't recorded.
+      await Promise.race([
+        Promise.allSettled(pendingResponses),
+        setTimeout(runConfig.timeout * 1000),
+      ]);
+      isFinished = true;
+      const responses = receivedResponses.filter((x) => x !== undefined);
+
+      const archive: Archive = {
+        version: await getVersion(),
+        url: runConfig.url.toString(),
+        browser: runConfig.browser,
+        created: new Date().toISOString(),
+        responses: responses,
+      };
+      logger.info(
+        `Writing ${responses.length.toString()} responses to archive "${path}"`,
+      );
+      await writeFile(path, JSON.stringify(archive));
+      return {
+        mode: ArchiveMode.Record,
+        path: path,
+        responses: responses.length,
+        misses: [],
+      };
+    },
+  };
+};
+
+const startReplaying = async (
+  logger: Logger,
+  context: BrowserContext,
+  path: Path,
+): Promise<ArchiveSession> => {
+  const archive = await loadArchive(path);
+  // When the same request was made more than once while recording, the
+  // responses are replayed in the order they were received, and the last
+  // one is used for any further requests.
+  const responsesByKey = new Map<string, ArchivedResponse[]>();
+  for (const aResponse of archive.responses) {
+    const key = keyForRequest(aResponse.method, aResponse.url);
+    const someResponses = responsesByKey.get(key) ?? [];
+    someResponses.push(aResponse);
+    responsesByKey.set(key, someResponses);
+  }
+  const numServedByKey = new Map<string, number>();
+  const misses: ArchiveMiss[] = [];
+
+  await context.route("**/*", async (route: Route) => {
+    const request = route.request();
+    const key = keyForRequest(request.method(), request.url());
+    const someResponses = responsesByKey.get(key);
+    if (someResponses === undefined) {
+      logger.verbose(`No archived response for "${key}"`);
+      misses.push({
+        method: request.method(),
+        url: request.url(),
+        resourceType: request.resourceType(),
+      });
+      await route.abort("internetdisconnected");
+      return;
+    }
+    const numServed = numServedByKey.get(key) ?? 0;
+    numServedByKey.set(key, numServed + 1);
+    const response =
+      someResponses[Math.min(numServed, someResponses.length - 1)];
+    await route.fulfill({
+      status: response.status,
+      headers: headersForReplay(response.headers),
+      body: response.body === null ? "" : Buffer.from(response.body, "base64"),
+    });
+  });
+
+  // WebSocket connections aren't recorded, so they're always closed (so
+  // that nothing is loaded from the network while replaying).
+  await context.routeWebSocket(/.*/, async (webSocketRoute) => {
+    logger.verbose(`Closing WebSocket to "${webSocketRoute.url()}"`);
+    misses.push({
+      method: "GET",
+      url: webSocketRoute.url(),
+      resourceType: "websocket",
+    });
+    await webSocketRoute.close();
+  });
+
+  logger.info(
+    `Replaying ${archive.responses.length.toString()} responses from ` +
+      `archive "${path}"`,
+  );
+  return {
+    finish: () => {
+      if (misses.length > 0) {
+        logger.info(
+          `${misses.length.toString()} requests weren't in the archive.`,
+        );
+      }
+      return Promise.resolve({
+        mode: ArchiveMode.Replay,
+        path: path,
+        responses: archive.responses.length,
+        misses: misses,
+      });
+    },
+  };
+};
+
+// Starts recording the responses received in the context into the run
+// config's archive, or serving all requests in the context from it (if the
+// run config has an archive). Either way, this works the same in every
+// browser, since responses are recorded with Playwright's response events,
+// and replayed with BrowserContext.route().
+export const startArchiveSession = async (
+  logger: Logger,
+  context: BrowserContext,
+  runConfig: RunConfig,
+): Promise<ArchiveSession | null> => {
+  const { archive } = runConfig;
+  if (archive === undefined) {
+    return null;
+  }
+  const log = logger.prefixedLogger("ArchiveSession: ");
+  if (archive.mode === ArchiveMode.Record) {
+    return startRecording(log, context, runConfig, archive.path);
+  }
+  return await startReplaying(log, context, archive.path);
+};
@@ -0,0 +1,122 @@
+import { readFile, writeFile } from "node:fs/promises";
+
+import { Namespace } from "argparse";
+
+import { makeUniqueFilename, runConfigForArgs } from "./config.js";
+import { Logger } from "./logging.js";
+import { discardReport, measureRunConfig, writeReport } from "./measure.js";
+import { Path, RunConfig } from "./types.js";
+
+export interface BatchEntryResult {
+  url: string;
+  start: Date;
+  end: Date;
+  // Path to the report for this URL (only set if the measurement succeeded).
+  output?: Path;
+  // Description of why measuring this URL failed (only set if it failed).
+  error?: string;
+}
+
+// Reads the list of URLs to measure from a --url-file. The file has
+// one URL per line. Empty lines, and lines starting with "#" (i.e., comments),
+// are ignored.
+export const readURLFile = async (path: Path): Promise<string[]> => {
+  let fileText: string;
+  try {
+    fileText = await readFile(path, "utf8");
+  } catch (err: unknown) {
+    throw new Error(
+      `Unable to read --url-file "${path}": ` + (err as Error).toString(),
+    );
+  }
+
+  const urls: string[] = [];
+  for (const aLine of fileText.split("\n")) {
+    const trimmedLine = aLine.trim();
+    if (trimmedLine.length === 0 || trimmedLine.startsWith("#")) {
+      continue;
+    }
+    urls.push(trimmedLine);
+  }
+
+  if (urls.length === 0) {
+    throw new Error(`--url-file "${path}" does not contain any URLs.`);
+  }
+  return urls;
+};
+
+// Measure each URL in the given list, one after the other, each in a freshly
+// launched browser. Every URL gets its own run config (built from the given
+// arguments, with the --url replaced), and so its own report file in the
+// --output directory.
+//
+// A failure when measuring one URL is recorded in the returned results,
+// and then we move on to the next URL.
+export const measureBatch = async (
+  logger: Logger,
+  args: Namespace,
+  urls: string[],
+): Promise<BatchEntryResult[]> => {
+  const log = logger.prefixedLogger("measureBatch(): ");
+  const results: BatchEntryResult[] = [];
+  const numURLs = urls.length.toString();
+
+  let urlIndex = 0;
+  for (const aURL of urls) {
+    urlIndex += 1;
+    const prefix = `(${urlIndex.toString()}/${numURLs}) `;
+    log.info(prefix, `Measuring url="${aURL}"`);
+
+    const start = new Date();
+    let runConfig: RunConfig | undefined;
+    try {
+      const url = new URL(aURL);
+      const urlArgs = new Namespace(args);
+      urlArgs.url = url;
+      runConfig = await runConfigForArgs(urlArgs);
+      const report = await measureRunConfig(logger, runConfig);
+      await writeReport(runConfig, report);
+      results.push({
+        end: new Date(),
+        output: runConfig.outputPath,
+        start: start,
+        url: aURL,
+      });
+    } catch (err: unknown) {
+      const errMsg = err instanceof Error ? err.toString() : String(err);
+      log.error(prefix, `Error measuring url="${aURL}": `, errMsg);
+      if (runConfig) {
+        await discardReport(log, runConfig);
+      }
+      results.push({
+        end: new Date(),
+        error: errMsg,
+        start: start,
+        url: aURL,
+      });
+    }
+  }
+
+  return results;
+};
+
+// Writes a summary of which URLs in a batch were measured successfully
+// (and where their reports were written), and which failed (and why).
+export const writeBatchSummary = async (
+  outputDir: Path,
+  results: BatchEntryResult[],
+): Promise<Path> => {
+  const summaryPath = await makeUniqueFilename(
+    outputDir,
+    "batch-summary",
+    ".json",
+  );
+  const numFailed = results.filter((x) => x.error !== undefined).length;
+  const summary = {
+    failed: numFailed,
+    results: results,
+    succeeded: results.length - numFailed,
+  };
+  await writeFile(summaryPath, JSON.stringify(summary), "utf8");
+  return summaryPath;
+};
@@ -1,8 +1,23 @@
+import assert from "node:assert/strict";
+
 import { BrowserContext, chromium, firefox, webkit } from "@playwright/test";
 import { BrowserType as PlaywrightBrowserType } from "@playwright/test";
 
+import {
+  chromiumExtensionArgs,
+  installGeckoExtensions,
+  uninstallGeckoExtensions,
+} from "./extensions.js";
 import { Logger } from "./logging.js";
-import { BrowserType, PersistentLaunchOptions, RunConfig } from "./types.js";
+import { networkEmulationMethodFor } from "./network-profile.js";
+import { startThrottlingProxy, ThrottlingProxy } from "./throttling-proxy.js";
+import {
+  BrowserType,
+  NetworkEmulationMethod,
+  Path,
+  PersistentLaunchOptions,
+  RunConfig,
+} from "./types.js";
 
 type BrowserOptionsFunc = (config: RunConfig) => PersistentLaunchOptions;
 interface BrowserLaunchParams {
@@ -124,6 +139,7 @@ const launchOptionsChromium = (config: RunConfig): PersistentLaunchOptions => {
     "--disable-extensions",
     "--disable-features=" + playwrightDisabledFeatures.join(","),
   ];
+  options.args.push(...chromiumExtensionArgs(config));
   if (config.args) {
     for (const anArg of config.args) {
       options.args.push(anArg);
@@ -154,6 +170,12 @@ const launchOptionsGecko = (config: RunConfig): PersistentLaunchOptions => {
     "browser.safebrowsing.phishing.enabled": false,
     "privacy.trackingprotection.enabled": false,
   };
+  // Enable the extensions installed into the profile with --extension,
+  // without asking, even if they aren't signed.
+  if (config.extensions.length > 0) {
+    options.firefoxUserPrefs["extensions.autoDisableScopes"] = 0;
+    options.firefoxUserPrefs["xpinstall.signatures.required"] = false;
+  }
   if (config.firefoxUserPrefs) {
     for (const [key, value] of Object.entries(config.firefoxUserPrefs)) {
       options.firefoxUserPrefs[key] = value;
@@ -194,10 +216,56 @@ export const launch = async (
   const launchOptionsForConfigFunc = paramsForBrowser.options;
   const opts = launchOptionsForConfigFunc(config);
 
+  // Trials without a --user-data-dir are given a temporary one before
+  // launching (see measureTrial()).
+  const { userDataDir } = config;
+  assert(userDataDir !== undefined);
+
+  // Extensions are installed before the proxy is started, so that the proxy
+  // isn't left running if they can't be. They're removed from the profile
+  // again once the browser is closed (or fails to launch).
+  let installedExtensions: Path[] = [];
+  if (config.browser === BrowserType.Gecko) {
+    installedExtensions = await installGeckoExtensions(
+      logger,
+      config,
+      userDataDir,
+    );
+  }
+
+  // Browsers that can't emulate network conditions themselves send their
+  // traffic through a throttling proxy, which runs as long as the browser.
+  let proxy: ThrottlingProxy | undefined;
+  const { networkProfile } = config;
   const browser = paramsForBrowser.type;
-  const userDataDir = config.userDataDir;
-  logger.info("Launching with options: ", { ...opts, userDataDir });
-  const context = await browser.launchPersistentContext(userDataDir, opts);
+  let context: BrowserContext;
+  try {
+    if (
+      networkProfile !== undefined &&
+      networkEmulationMethodFor(config.browser) === NetworkEmulationMethod.Proxy
+    ) {
+      proxy = await startThrottlingProxy(logger, networkProfile);
+      opts.proxy = { server: proxy.url };
+    }
+
+    logger.info("Launching with options: ", { ...opts, userDataDir });
+    context = await browser.launchPersistentContext(userDataDir, opts);
+  } catch (err) {
+    await proxy?.close();
+    await uninstallGeckoExtensions(logger, installedExtensions);
+    throw err;
+  }
   logger.info("...and launched.");
+  if (proxy !== undefined) {
+    const launchedProxy = proxy;
+    context.on("close", () => {
+      void launchedProxy.close();
+    });
+  }
+  if (installedExtensions.length > 0) {
+    context.on("close", () => {
+      void uninstallGeckoExtensions(logger, installedExtensions);
+    });
+  }
   return context;
 };
@@ -1,5 +1,7 @@
 #!/usr/bin/env node
 import assert from "node:assert/strict";
+import { writeFile } from "node:fs/promises";
+import { basename, extname } from "node:path";
 
 import {
   ArgumentParser,
@@ -7,17 +9,49 @@ import {
   Namespace,
 } from "argparse";
 
-import { launch } from "./browser.js";
-import { defaultLaunchArgs, getVersion, runConfigForArgs } from "./config.js";
+import { measureBatch, readURLFile, writeBatchSummary } from "./batch.js";
+import { compareReports, formatComparison, loadReport } from "./compare.js";
+import {
+  argsForRunConfigValues,
+  assertIsOutputDir,
+  assertIsUpgradeDir,
+  defaultLaunchArgs,
+  getVersion,
+  loadRunConfigValues,
+  makeUniqueFilename,
+  runConfigForArgs,
+} from "./config.js";
 import { getLogger, LoggingLevel } from "./logging.js";
-import { measureURL } from "./measure.js";
-import { BrowserType, MeasurementType } from "./types.js";
+import { measureRunConfig, writeReport } from "./measure.js";
+import {
+  loadPlan,
+  measurePlan,
+  validatePlan,
+  writePlanSummary,
+} from "./plan.js";
+import { LoadedReport, readReport, reportSchemaVersion } from "./schema.js";
+import {
+  BrowserType,
+  CacheMode,
+  ConsentMode,
+  MeasurementType,
+  MemoryBackend,
+  NetworkProfileName,
+  Path,
+  RunConfigValues,
+} from "./types.js";
 
 const isDebugMode = process.env.PERF_TESTS_DEBUG === "1";
 const defaultArgs = defaultLaunchArgs();
 
 const parser = new ArgumentParser({
   description: "Run performance tests for a playwright version of a browser.",
+  epilog:
+    "To compare two reports generated by this tool, see " +
+    "'cli.js compare --help'. To measure a set of URLs in a set of " +
+    "browsers, as described in a plan file, see 'cli.js plan --help'. To " +
+    "check that reports match the report schema, see " +
+    "'cli.js validate --help'.",
   formatter_class: ArgumentDefaultsHelpFormatter,
 });
 parser.add_argument("-b", "--browser", {
@@ -25,17 +59,79 @@ parser.add_argument("-b", "--browser", {
   default: defaultArgs.browser,
   help: "Which browser family to use for this test.",
 });
+parser.add_argument("--cache-mode", {
+  choices: Object.values(CacheMode),
+  default: defaultArgs.cacheMode,
+  help:
+    `Whether to measure the page loading with an empty cache ('${CacheMode.Cold}'), ` +
+    `or with a cache primed by an earlier load of the page ('${CacheMode.Warm}', ` +
+    "for which the page is loaded, left after --seconds, and then loaded " +
+    `and measured again). '${CacheMode.Both}' measures the page loading ` +
+    "with an empty cache, and then again with the cache that load primed, " +
+    "and includes both sets of measurements in the report.",
+});
+parser.add_argument("-c", "--config", {
+  help:
+    "Path to a JSON file of values to build the run configuration from, " +
+    "as an alternative to passing them as arguments. The file is an " +
+    "object using the names of the RunConfig fields (e.g., " +
+    '{"browser": "gecko", "firefoxUserPrefs": {...}, "viewport": ' +
+    '{"height": 720, "width": 1280}}). Any arguments passed on the command ' +
+    "line take precedence over the values in the file. Every report " +
+    "includes the resolved run configuration in this same format.",
+});
+parser.add_argument("--consent", {
+  choices: Object.values(ConsentMode),
+  default: defaultArgs.consent,
+  help:
+    "What to do with the consent banner of a consent management platform " +
+    "(CMP) on the page. For 'accept' and 'reject', the page is checked " +
+    "for a banner after navigating to the URL (for up to 10 seconds), and " +
+    "the matching buttons are clicked. The report says which CMP was " +
+    "detected (including from the page's IAB TCF API), and whether the " +
+    `buttons were clicked. '${ConsentMode.Ignore}' doesn't check for ` +
+    "a banner.",
+});
+parser.add_argument("--consent-rules", {
+  help:
+    "Path to a JSON file of rules for detecting CMP banners, and the " +
+    "buttons to click to accept or reject consent in them, instead of " +
+    "the rules bundled with this tool (in 'rules/consent.json').",
+});
 parser.add_argument("-d", "--user-data-dir", {
   help:
     "Path to the user data directory to load and save persistent state " +
     "to. For Chromium browsers, this will be a directory containing multiple " +
     "profiles. For other browsers, this directory will be the state for " +
     "a single profile. If not provided, will create a new temporary " +
-    "user-data directory.\n\n" +
+    "user-data directory for each trial, and remove it afterwards.\n\n" +
     "*Note:* Gecko/Firefox measurements should use this flag for " +
     "specifying the path for storing persistent user data (and not " +
     "--profile).",
 });
+parser.add_argument("--extension", {
+  action: "append",
+  help:
+    "Path to an extension to load into the browser (can be given more than " +
+    "once). For Chromium browsers, this is the directory of an unpacked " +
+    "extension, and the extension's service worker (if it has one) is " +
+    "started before the page is loaded. For Gecko, this is an XPI file, " +
+    "which is copied into the profile (including a --user-data-dir " +
+    "profile) for the run, and removed again once the browser is closed, " +
+    "and must set its ID in " +
+    "'browser_specific_settings.gecko.id' in its manifest (unsigned XPIs " +
+    "also need a Firefox build that allows them). The IDs and versions of " +
+    "the extensions are included in the report.",
+});
+parser.add_argument("--har", {
+  action: "store_true",
+  default: defaultArgs.har,
+  help:
+    "Also write a HAR 1.2 file for each page measured by the network " +
+    "measurement, alongside the report (e.g., 'example.com.page-1.har' " +
+    "next to 'example.com.json'). Requires the network measurement, and " +
+    "an --output file or directory.",
+});
 parser.add_argument("-l", "--logging", {
   choices: Object.values(LoggingLevel),
   default: defaultArgs.loggingLevel,
@@ -48,9 +144,57 @@ parser.add_argument("-m", "--measurements", {
   default: defaultArgs.measurements,
   help:
     "Which measurements of performance to collect. By default, performs all " +
-    "measurements.",
+    `measurements except ${MeasurementType.CDPMetrics}, which can only be ` +
+    `run in Chromium browsers, and ${MeasurementType.Visual}, which takes ` +
+    "a screenshot of the page every 100ms (adding work for the browser " +
+    "while the page loads) and writes them alongside the report, and so " +
+    "requires --output.",
   nargs: "+",
 });
+parser.add_argument("--memory-backend", {
+  choices: Object.values(MemoryBackend),
+  default: defaultArgs.memoryBackend,
+  help:
+    "How the memory-cpu measurement reads the memory and CPU use of each " +
+    `browser process. '${MemoryBackend.PIDUsage}' reports each process's ` +
+    "RSS, which counts memory shared between processes (e.g., shared " +
+    `libraries) once for every process. '${MemoryBackend.Proc}' (Linux ` +
+    "only) reads /proc/<pid>/smaps_rollup, and also reports each " +
+    "process's PSS (which divides shared memory between the processes " +
+    "sharing it), USS, and swap, using PSS for the memory totals.",
+});
+parser.add_argument("--memory-cpu-interval", {
+  default: defaultArgs.memoryCPUInterval,
+  help:
+    "How often the memory-cpu measurement samples the memory and CPU use " +
+    "of the browser's processes, in milliseconds (at least 250). If a " +
+    "sample takes longer than this, the next sample is skipped, instead " +
+    "of overlapping with it.",
+  type: "int",
+});
+parser.add_argument("--network-profile", {
+  choices: Object.values(NetworkProfileName),
+  help:
+    "Emulate the network conditions of a preset profile, or of the " +
+    `'${NetworkProfileName.Custom}' values given with --network-latency, ` +
+    "--network-download and --network-upload (which can also replace " +
+    "the values of a preset). Chromium browsers emulate the conditions " +
+    "through the Chrome DevTools Protocol, and other browsers send their " +
+    "traffic through a throttling proxy run by this tool. By default, " +
+    "network conditions aren't emulated.",
+});
+parser.add_argument("--network-latency", {
+  help: "Round trip latency to add, in milliseconds (see --network-profile).",
+  type: "int",
+});
+parser.add_argument("--network-download", {
+  help: "Download bandwidth, in kilobits per second (see --network-profile).",
+  type: "float",
+});
+parser.add_argument("--network-upload", {
+  help: "Upload bandwidth, in kilobits per second (see --network-profile).",
+  type: "float",
+});
 parser.add_argument("-o", "--output", {
   help:
     "Path to write results to. By default results are written to STDOUT, " +
@@ -58,6 +202,8 @@ parser.add_argument("-o", "--output", {
     "If --output is called with the path to a directory, results will be " +
     "written to a file in that directory with a name derived from the " +
     "--url argument.\n\n" +
+    "If --url-file is used, --output must be the path to a directory, and " +
+    "a results file will be written to it for each URL.\n\n" +
     "If --output is called with a path that matches an existing file, or " +
     "a path where no file exists, the results will be written to that path.",
 });
@@ -70,6 +216,39 @@ parser.add_argument("-r", "--preserve-pages", {
     "any pages from being automatically opened, but if this argument is set, " +
     "then any existing pages will be reopened before taking any measurements.",
 });
+parser.add_argument("-n", "--repeat", {
+  default: defaultArgs.repeat,
+  help:
+    "Number of times to measure each URL. Each trial launches the browser " +
+    "again, with the same configuration. Each trial starts with a new, " +
+    "empty profile, unless --user-data-dir is given, in which case every " +
+    "trial uses that profile (so state from earlier trials is visible to " +
+    "later trials). If more than one trial is run, the results include the " +
+    "report for each trial, and summary statistics (median, mean, stddev, " +
+    "min, max, and p95) of the headline numbers from each measurement.",
+  type: "int",
+});
+parser.add_argument("--record", {
+  help:
+    "Path to write an archive of every response received while measuring " +
+    "the URL to, for serving the page from later with --replay. Can't be " +
+    "used with --repeat or --url-file.",
+});
+parser.add_argument("--replay", {
+  help:
+    "Path to an archive written with --record, to serve the page entirely " +
+    "from (in any browser), instead of loading it from the network. " +
+    "Requests that aren't in the archive fail, and are listed in the " +
+    "report. Note that replayed responses aren't affected by " +
+    "--network-profile.",
+});
+parser.add_argument("--scenario", {
+  help:
+    "Path to a JSON file describing user interactions (e.g., scrolling, " +
+    "clicking, typing, and navigating) to run in order after navigating " +
+    "to the URL, before letting the page load for --seconds. When each " +
+    "step ran, and any error it failed with, is included in the report.",
+});
 parser.add_argument("-s", "--seconds", {
   default: defaultArgs.seconds,
   help: "Number of seconds to wait while measuring page performance.",
@@ -83,13 +262,52 @@ parser.add_argument("-t", "--timeout", {
     "navigate to the given URL, etc.)",
   type: "int",
 });
-parser.add_argument("-u", "--url", {
+parser.add_argument("--trace", {
+  action: "store_true",
+  default: defaultArgs.trace,
+  help:
+    "Also record a Playwright trace (with screenshots and DOM snapshots) of " +
+    "each measured load of the page, and, for Chromium browsers, a Chrome " +
+    "trace event file, alongside the report (e.g., 'example.com.trace.zip' " +
+    "and 'example.com.trace.json' next to 'example.com.json'). Tracing adds " +
+    "work for the browser while the page loads. Requires an --output file " +
+    "or directory.",
+});
+parser.add_argument("--trace-categories", {
+  help:
+    "Comma separated list of the categories to record in Chrome traces " +
+    "(categories starting with '-' are excluded), instead of the ones the " +
+    "Performance panel in Chrome DevTools records. Requires --trace, and " +
+    "a Chromium browser.",
+});
+parser.add_argument("--tracker-list", {
+  help:
+    "Path to a JSON file of tracker (or ad, etc.) categories, used to " +
+    "label the requests and responses recorded by the network measurement " +
+    "(and the cookies and scripts recorded by the storage and timing " +
+    "measurements). " +
+    "The file is an object mapping each category name to an array of " +
+    'domains (e.g., {"advertising": ["doubleclick.net"]}). URLs for a ' +
+    "domain, or any of its subdomains, are labeled with the domain's " +
+    "category, and the report includes the number and size of requests " +
+    "and responses in each category.",
+});
+const urlGroup = parser.add_mutually_exclusive_group();
+urlGroup.add_argument("-u", "--url", {
   help:
     "The URL to run measurements against. Should be a full URL (i.e., " +
     "at least a scheme and a domain).",
-  required: true,
   type: URL,
 });
+urlGroup.add_argument("--url-file", {
+  help:
+    "Path to a file listing URLs to measure, one URL per line. Empty lines " +
+    "and lines starting with '#' are ignored. Each URL is measured in a " +
+    "newly launched browser, and the results for each URL are written to " +
+    "their own file in the --output directory. If measuring a URL fails, " +
+    "the error is recorded in a batch summary file in the --output " +
+    "directory, and measurement continues with the next URL.",
+});
 parser.add_argument("-v", "--version", {
   action: "version",
   version: await getVersion(),
@@ -127,28 +345,242 @@ parser.add_argument("--width", {
   type: "int",
 });
 
-try {
-  const rawArgs = parser.parse_args() as unknown;
-  assert(rawArgs instanceof Namespace);
+const compareParser = new ArgumentParser({
+  description:
+    "Compare two reports generated by this tool (e.g., reports for the same " +
+    "URL, measured in two different browsers).",
+  formatter_class: ArgumentDefaultsHelpFormatter,
+  prog: "cli.js compare",
+});
+compareParser.add_argument("report_a", {
+  help: "Path to the first report (the baseline).",
+});
+compareParser.add_argument("report_b", {
+  help: "Path to the second report (compared against the first).",
+});
+compareParser.add_argument("-f", "--format", {
+  choices: ["text", "json"],
+  default: "text",
+  help: "Format to print the comparison to STDOUT in.",
+});
+compareParser.add_argument("-o", "--output", {
+  help: "Optional path to also write the comparison to, as JSON.",
+});
+
+const planParser = new ArgumentParser({
+  description:
+    "Measure each URL in each browser described in a plan file, in a " +
+    "randomized or counterbalanced order (so that changes in network " +
+    "conditions, time of day, etc. don't favor one browser).",
+  formatter_class: ArgumentDefaultsHelpFormatter,
+  prog: "cli.js plan",
+});
+planParser.add_argument("plan", {
+  help:
+    "Path to a JSON plan file, listing the browser configurations and " +
+    "URLs to measure, and the order to measure them in.",
+});
+planParser.add_argument("-l", "--logging", {
+  choices: Object.values(LoggingLevel),
+  default: defaultArgs.loggingLevel,
+  help:
+    "What level of information to include when printing information during " +
+    "the measurements.",
+});
+planParser.add_argument("-o", "--output", {
+  help:
+    "Path to the directory to write the report for each run to, along " +
+    "with a summary of all runs in the plan.",
+  required: true,
+});
+
+const validateParser = new ArgumentParser({
+  description:
+    "Check that reports generated by this tool match the JSON Schema for " +
+    "reports (in schema/report.schema.json). Reports generated by earlier " +
+    "versions of this tool are upgraded to the current schema version " +
+    "(where possible) before being checked.",
+  formatter_class: ArgumentDefaultsHelpFormatter,
+  prog: "cli.js validate",
+});
+validateParser.add_argument("reports", {
+  help: "Paths to the reports to check.",
+  nargs: "+",
+});
+validateParser.add_argument("-o", "--output", {
+  help:
+    "Optional path to a directory to write upgraded copies of any valid " +
+    "reports that were generated with an earlier schema version.",
+});
+
+// Build the arguments for runConfigForArgs() from the given values (e.g., for
+// a run in a plan file), using the measure command's defaults for any
+// values that aren't set.
+const argsForValues = (values: RunConfigValues): Namespace => {
+  const valueArgs = new Namespace(argsForRunConfigValues(values));
+  const args = parser.parse_args([], valueArgs) as unknown;
+  assert(args instanceof Namespace);
+  return args;
+};
+
+const measureCommand = async (rawArgs: Namespace): Promise<void> => {
+  if (rawArgs.url_file !== undefined) {
+    assert(typeof rawArgs.url_file === "string");
+    if (rawArgs.record !== undefined || rawArgs.replay !== undefined) {
+      throw new Error(
+        "The --record and --replay arguments can't be used with " +
+          "--url-file, since an archive only holds the responses for one URL.",
+      );
+    }
+    const outputDir = await assertIsOutputDir(rawArgs.output);
+    const urls = await readURLFile(rawArgs.url_file);
+    const loggingLevel = rawArgs.logging as LoggingLevel;
+    const logger = getLogger(isDebugMode ? LoggingLevel.Verbose : loggingLevel);
+    const batchResults = await measureBatch(logger, rawArgs, urls);
+    const summaryPath = await writeBatchSummary(outputDir, batchResults);
+    const numFailed = batchResults.filter((x) => x.error !== undefined).length;
+    logger.info(
+      `Measured ${urls.length.toString()} URLs (${numFailed.toString()} ` +
+        `failed). Summary written to "${summaryPath}"`,
+    );
+    return;
+  }
 
   const runConfig = await runConfigForArgs(rawArgs);
-  const { measurements, url, seconds, timeout } = runConfig;
-  const { loggingLevel, preservePages } = runConfig;
+  const { loggingLevel } = runConfig;
+  const logger = getLogger(isDebugMode ? LoggingLevel.Verbose : loggingLevel);
+  const results = await measureRunConfig(logger, runConfig);
+  await writeReport(runConfig, results);
+};
+
+const compareCommand = async (rawArgs: Namespace): Promise<void> => {
+  assert(typeof rawArgs.report_a === "string");
+  assert(typeof rawArgs.report_b === "string");
+  const reportA = await loadReport(rawArgs.report_a);
+  const reportB = await loadReport(rawArgs.report_b);
+  const comparison = compareReports(
+    rawArgs.report_a,
+    reportA,
+    rawArgs.report_b,
+    reportB,
+  );
+
+  if (rawArgs.format === "json") {
+    console.log(JSON.stringify(comparison));
+  } else {
+    console.log(formatComparison(comparison));
+  }
+
+  if (typeof rawArgs.output === "string") {
+    await writeFile(rawArgs.output, JSON.stringify(comparison), "utf8");
+  }
+};
+
+const planCommand = async (rawArgs: Namespace): Promise<void> => {
+  assert(typeof rawArgs.plan === "string");
+  const outputDir = await assertIsOutputDir(rawArgs.output);
+  const loggingLevel = rawArgs.logging as LoggingLevel;
   const logger = getLogger(isDebugMode ? LoggingLevel.Verbose : loggingLevel);
-  const browserContext = await launch(logger, runConfig);
-  const results = await measureURL(
-    logger,
-    browserContext,
-    url,
-    seconds,
-    timeout,
-    measurements,
-    preservePages,
+  const plan = await loadPlan(rawArgs.plan);
+  plan.settings = { loggingLevel, ...plan.settings };
+  await validatePlan(plan, argsForValues);
+
+  const planResults = await measurePlan(logger, plan, outputDir, argsForValues);
+  const summaryPath = await writePlanSummary(outputDir, plan, planResults);
+  const numFailed = planResults.filter((x) => x.error !== undefined).length;
+  logger.info(
+    `Performed ${planResults.length.toString()} runs ` +
+      `(${numFailed.toString()} failed). Summary written to "${summaryPath}"`,
   );
+};
 
-  runConfig.output.write(JSON.stringify(results), "utf8", () => {
-    process.exit(0);
-  });
+const validateCommand = async (rawArgs: Namespace): Promise<void> => {
+  const reportPaths = rawArgs.reports as string[];
+  let outputDir: Path | undefined;
+  if (typeof rawArgs.output === "string") {
+    outputDir = await assertIsUpgradeDir(rawArgs.output);
+  }
+
+  let numInvalid = 0;
+  for (const aPath of reportPaths) {
+    let loadedReport: LoadedReport;
+    try {
+      loadedReport = await readReport(aPath);
+    } catch (err: unknown) {
+      numInvalid += 1;
+      console.log(`INVALID: ${aPath}: ${(err as Error).message}`);
+      continue;
+    }
+
+    const { errors, fromVersion, report } = loadedReport;
+    if (errors.length > 0) {
+      numInvalid += 1;
+      console.log(`INVALID: ${aPath}`);
+      for (const anError of errors) {
+        console.log(`  ${anError}`);
+      }
+      continue;
+    }
+
+    if (fromVersion === reportSchemaVersion) {
+      console.log(`VALID: ${aPath}`);
+      continue;
+    }
+
+    let upgradeMsg = `(upgraded from schema version ${fromVersion.toString()})`;
+    if (outputDir !== undefined) {
+      const fileName = basename(aPath, extname(aPath));
+      const upgradedPath = await makeUniqueFilename(
+        outputDir,
+        fileName,
+        ".json",
+      );
+      await writeFile(upgradedPath, JSON.stringify(report), "utf8");
+      upgradeMsg += `, written to "${upgradedPath}"`;
+    }
+    console.log(`VALID: ${aPath} ${upgradeMsg}`);
+  }
+
+  if (numInvalid > 0) {
+    throw new Error(
+      `${numInvalid.toString()} of ${reportPaths.length.toString()} ` +
+        "reports are invalid.",
+    );
+  }
+};
+
+try {
+  // Commands other than measuring a URL are selected with the first
+  // argument (e.g., "cli.js compare a.json b.json"), so that
+  // "cli.js --url ..." keeps working as it always has.
+  const commandName = process.argv.at(2);
+  if (commandName === "compare") {
+    const rawArgs = compareParser.parse_args(process.argv.slice(3)) as unknown;
+    assert(rawArgs instanceof Namespace);
+    await compareCommand(rawArgs);
+  } else if (commandName === "validate") {
+    const rawArgs = validateParser.parse_args(process.argv.slice(3)) as unknown;
+    assert(rawArgs instanceof Namespace);
+    await validateCommand(rawArgs);
+  } else if (commandName === "plan") {
+    const rawArgs = planParser.parse_args(process.argv.slice(3)) as unknown;
+    assert(rawArgs instanceof Namespace);
+    await planCommand(rawArgs);
+  } else {
+    // If there is a --config file, its values are used as the defaults
+    // for the arguments, so that any arguments given explicitly on the
+    // command line override the values in the file.
+    const [knownArgs] = parser.parse_known_args() as unknown[];
+    assert(knownArgs instanceof Namespace);
+    if (typeof knownArgs.config === "string") {
+      const configValues = await loadRunConfigValues(knownArgs.config);
+      parser.set_defaults(argsForRunConfigValues(configValues));
+    }
+    const rawArgs = parser.parse_args() as unknown;
+    assert(rawArgs instanceof Namespace);
+    await measureCommand(rawArgs);
+  }
+  process.exit(0);
 } catch (err) {
   if (isDebugMode) {
     throw err;
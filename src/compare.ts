@@ -0,0 +1,363 @@
+import { NetworkTotals } from "./measurements/network.js";
+import { JSONReport, readReport } from "./schema.js";
+import { metricsForMeasurement } from "./summary.js";
+import { MeasurementResults, MeasurementType, Path } from "./types.js";
+
+export interface Delta {
+  a: number | null;
+  b: number | null;
+  // b - a, or null if either value is missing.
+  delta: number | null;
+  // The change from a to b, as a percentage of a (null if either value is
+  // missing, or if a is zero).
+  percent: number | null;
+}
+
+export interface NetworkBytesDelta {
+  sent: Delta;
+  received: Delta;
+}
+
+// The comparison of the measurements of one load of the page in each report.
+// Measurements that aren't in both reports are left out.
+export interface MeasurementsComparison {
+  network?: {
+    totals: NetworkBytesDelta;
+    byResourceType: Record<string, NetworkBytesDelta>;
+    byOrigin: Record<string, NetworkBytesDelta>;
+  };
+  timing?: Record<string, Delta>;
+  memoryCPU?: Record<string, Delta>;
+  storage?: Record<string, Delta>;
+  cdpMetrics?: Record<string, Delta>;
+  visual?: Record<string, Delta>;
+}
+
+export interface ReportComparison extends MeasurementsComparison {
+  a: { path: Path; url: string; start: string; version: string };
+  b: { path: Path; url: string; start: string; version: string };
+  // The comparison of the second (warm cache) loads, if both reports were
+  // generated with the "both" cache mode.
+  warm?: MeasurementsComparison;
+  // The report that has warm cache measurements, if only one of them does.
+  warmOnlyIn?: "a" | "b";
+}
+
+// Reads a report to compare, upgrading it to the current schema version
+// if needed.
+export const loadReport = async (path: Path): Promise<JSONReport> => {
+  const { report, errors } = await readReport(path);
+  if ("trials" in report) {
+    throw new Error(
+      `Report "${path}" contains the results of several trials (i.e., it ` +
+        "was generated with --repeat). Only reports for a single " +
+        "measurement can be compared.",
+    );
+  }
+  if (errors.length > 0) {
+    throw new Error(
+      `Report "${path}" is not a valid report:\n` + errors.join("\n"),
+    );
+  }
+  return report;
+};
+
+const makeDelta = (a: number | null, b: number | null): Delta => {
+  const delta = a === null || b === null ? null : b - a;
+  const percent =
+    delta === null || a === 0 || a === null ? null : (delta / a) * 100;
+  return { a, b, delta, percent };
+};
+
+const emptyTotals: NetworkTotals = {
+  requests: 0,
+  requestBytes: 0,
+  responses: 0,
+  responseBytes: 0,
+};
+
+const compareTotals = (
+  a: NetworkTotals,
+  b: NetworkTotals,
+): NetworkBytesDelta => {
+  return {
+    sent: makeDelta(a.requestBytes, b.requestBytes),
+    received: makeDelta(a.responseBytes, b.responseBytes),
+  };
+};
+
+// Compare the grouped totals from two network measurements. Groups that
+// only appear in one of the measurements are treated as zero bytes in the
+// other measurement.
+const compareGroupTotals = (
+  a: Record<string, NetworkTotals>,
+  b: Record<string, NetworkTotals>,
+): Record<string, NetworkBytesDelta> => {
+  const keys = Array.from(new Set([...Object.keys(a), ...Object.keys(b)]));
+  const deltas: Record<string, NetworkBytesDelta> = {};
+  for (const aKey of keys.sort()) {
+    deltas[aKey] = compareTotals(
+      Object.hasOwn(a, aKey) ? a[aKey] : emptyTotals,
+      Object.hasOwn(b, aKey) ? b[aKey] : emptyTotals,
+    );
+  }
+  return deltas;
+};
+
+const compareMetrics = (
+  type: MeasurementType,
+  a: unknown,
+  b: unknown,
+): Record<string, Delta> => {
+  const aMetrics = metricsForMeasurement(type, a);
+  const bMetrics = metricsForMeasurement(type, b);
+  const deltas: Record<string, Delta> = {};
+  for (const aName of Object.keys(aMetrics)) {
+    deltas[aName] = makeDelta(aMetrics[aName], bMetrics[aName] ?? null);
+  }
+  return deltas;
+};
+
+// Returns undefined if the results don't include the given measurement.
+const dataFor = (
+  results: MeasurementResults,
+  type: MeasurementType,
+): unknown => {
+  return results[type]?.data;
+};
+
+const compareMeasurements = (
+  a: MeasurementResults,
+  b: MeasurementResults,
+): MeasurementsComparison => {
+  const comparison: MeasurementsComparison = {};
+
+  const aNetworkData = a[MeasurementType.Network]?.data;
+  const bNetworkData = b[MeasurementType.Network]?.data;
+  if (aNetworkData !== undefined && bNetworkData !== undefined) {
+    const aSummary = aNetworkData.summary;
+    const bSummary = bNetworkData.summary;
+    comparison.network = {
+      totals: compareTotals(aSummary.totals, bSummary.totals),
+      byResourceType: compareGroupTotals(
+        aSummary.byResourceType,
+        bSummary.byResourceType,
+      ),
+      byOrigin: compareGroupTotals(aSummary.byOrigin, bSummary.byOrigin),
+    };
+  }
+
+  const aTiming = dataFor(a, MeasurementType.Timing);
+  const bTiming = dataFor(b, MeasurementType.Timing);
+  if (aTiming !== undefined && bTiming !== undefined) {
+    comparison.timing = compareMetrics(
+      MeasurementType.Timing,
+      aTiming,
+      bTiming,
+    );
+  }
+
+  const aMemoryCPU = dataFor(a, MeasurementType.MemoryCPU);
+  const bMemoryCPU = dataFor(b, MeasurementType.MemoryCPU);
+  if (aMemoryCPU !== undefined && bMemoryCPU !== undefined) {
+    comparison.memoryCPU = compareMetrics(
+      MeasurementType.MemoryCPU,
+      aMemoryCPU,
+      bMemoryCPU,
+    );
+  }
+
+  const aStorage = dataFor(a, MeasurementType.Storage);
+  const bStorage = dataFor(b, MeasurementType.Storage);
+  if (aStorage !== undefined && bStorage !== undefined) {
+    comparison.storage = compareMetrics(
+      MeasurementType.Storage,
+      aStorage,
+      bStorage,
+    );
+  }
+
+  const aCDPMetrics = dataFor(a, MeasurementType.CDPMetrics);
+  const bCDPMetrics = dataFor(b, MeasurementType.CDPMetrics);
+  if (aCDPMetrics !== undefined && bCDPMetrics !== undefined) {
+    comparison.cdpMetrics = compareMetrics(
+      MeasurementType.CDPMetrics,
+      aCDPMetrics,
+      bCDPMetrics,
+    );
+  }
+
+  const aVisual = dataFor(a, MeasurementType.Visual);
+  const bVisual = dataFor(b, MeasurementType.Visual);
+  if (aVisual !== undefined && bVisual !== undefined) {
+    comparison.visual = compareMetrics(
+      MeasurementType.Visual,
+      aVisual,
+      bVisual,
+    );
+  }
+
+  return comparison;
+};
+
+export const compareReports = (
+  aPath: Path,
+  a: JSONReport,
+  bPath: Path,
+  b: JSONReport,
+): ReportComparison => {
+  const comparison: ReportComparison = {
+    a: { path: aPath, url: a.url, start: a.start, version: a.version },
+    b: { path: bPath, url: b.url, start: b.start, version: b.version },
+    ...compareMeasurements(a.measurements, b.measurements),
+  };
+
+  const { warmMeasurements: aWarm } = a;
+  const { warmMeasurements: bWarm } = b;
+  if (aWarm !== null && bWarm !== null) {
+    comparison.warm = compareMeasurements(aWarm, bWarm);
+  } else if (aWarm !== null) {
+    comparison.warmOnlyIn = "a";
+  } else if (bWarm !== null) {
+    comparison.warmOnlyIn = "b";
+  }
+  return comparison;
+};
+
+const formatNumber = (value: number | null): string => {
+  if (value === null) {
+    return "-";
+  }
+  return value.toLocaleString("en-US", { maximumFractionDigits: 1 });
+};
+
+const formatDelta = (delta: Delta): string[] => {
+  let deltaText = "-";
+  if (delta.delta !== null) {
+    const sign = delta.delta > 0 ? "+" : "";
+    deltaText = sign + formatNumber(delta.delta);
+    if (delta.percent !== null) {
+      const percentSign = delta.percent > 0 ? "+" : "";
+      deltaText += ` (${percentSign}${delta.percent.toFixed(1)}%)`;
+    }
+  }
+  return [formatNumber(delta.a), formatNumber(delta.b), deltaText];
+};
+
+// Format rows of cells as a table with aligned columns (the first column
+// left aligned, and all other columns right aligned).
+const formatTable = (header: string[], rows: string[][]): string[] => {
+  const allRows = [header, ...rows];
+  const widths = header.map((_, index) => {
+    return Math.max(...allRows.map((x) => x[index].length));
+  });
+  return allRows.map((aRow) => {
+    const cells = aRow.map((aCell, index) => {
+      return index === 0
+        ? aCell.padEnd(widths[index])
+        : aCell.padStart(widths[index]);
+    });
+    return "  " + cells.join("  ");
+  });
+};
+
+const formatNetworkSection = (
+  title: string,
+  deltas: Record<string, NetworkBytesDelta>,
+): string[] => {
+  const header = ["", "sent A", "sent B", "sent delta"];
+  header.push("received A", "received B", "received delta");
+  const rows = Object.entries(deltas).map(([aKey, aDelta]) => {
+    return [aKey, ...formatDelta(aDelta.sent), ...formatDelta(aDelta.received)];
+  });
+  return [title, ...formatTable(header, rows), ""];
+};
+
+const formatMetricsSection = (
+  title: string,
+  deltas: Record<string, Delta>,
+): string[] => {
+  const header = ["", "A", "B", "delta"];
+  const rows = Object.entries(deltas).map(([aName, aDelta]) => {
+    return [aName, ...formatDelta(aDelta)];
+  });
+  return [title, ...formatTable(header, rows), ""];
+};
+
+// Formats the sections for each measurement in the comparison, with the
+// given prefix (if any) added to each section's title.
+const formatMeasurements = (
+  comparison: MeasurementsComparison,
+  prefix: string,
+): string[] => {
+  const lines: string[] = [];
+  if (comparison.network) {
+    const { totals, byResourceType, byOrigin } = comparison.network;
+    lines.push(
+      ...formatNetworkSection(`${prefix}Network bytes (total)`, {
+        total: totals,
+      }),
+      ...formatNetworkSection(
+        `${prefix}Network bytes by resource type`,
+        byResourceType,
+      ),
+      ...formatNetworkSection(`${prefix}Network bytes by origin`, byOrigin),
+    );
+  }
+  if (comparison.timing) {
+    lines.push(
+      ...formatMetricsSection(`${prefix}Timing (ms)`, comparison.timing),
+    );
+  }
+  if (comparison.memoryCPU) {
+    lines.push(
+      ...formatMetricsSection(`${prefix}Memory and CPU`, comparison.memoryCPU),
+    );
+  }
+  if (comparison.storage) {
+    lines.push(...formatMetricsSection(`${prefix}Storage`, comparison.storage));
+  }
+  if (comparison.cdpMetrics) {
+    lines.push(
+      ...formatMetricsSection(
+        `${prefix}CDP performance metrics`,
+        comparison.cdpMetrics,
+      ),
+    );
+  }
+  if (comparison.visual) {
+    lines.push(
+      ...formatMetricsSection(
+        `${prefix}Visual progress (ms)`,
+        comparison.visual,
+      ),
+    );
+  }
+  const { cdpMetrics, memoryCPU, network, storage, timing, visual } =
+    comparison;
+  if (!network && !timing && !memoryCPU && !storage && !cdpMetrics && !visual) {
+    lines.push("No measurements in common between the two reports.", "");
+  }
+  return lines;
+};
+
+export const formatComparison = (comparison: ReportComparison): string => {
+  const { a, b, warm, warmOnlyIn } = comparison;
+  const lines = [
+    `A: ${a.path} (url=${a.url}, start=${a.start}, version=${a.version})`,
+    `B: ${b.path} (url=${b.url}, start=${b.start}, version=${b.version})`,
+    "",
+    ...formatMeasurements(comparison, ""),
+  ];
+
+  if (warm !== undefined) {
+    lines.push(...formatMeasurements(warm, "Warm cache: "));
+  } else if (warmOnlyIn !== undefined) {
+    const name = warmOnlyIn.toUpperCase();
+    lines.push(
+      `Only report ${name} has warm cache measurements (i.e., it was ` +
+        "generated with '--cache-mode both'), so they weren't compared.",
+    );
+  }
+  return lines.join("\n");
+};
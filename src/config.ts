@@ -8,34 +8,80 @@ import {
   stat,
 } from "node:fs/promises";
 import { tmpdir } from "node:os";
-import { join } from "node:path";
+import { basename, dirname, extname, join } from "node:path";
 import { Writable } from "node:stream";
 
 import { Namespace } from "argparse";
 import { chromium, firefox, webkit } from "playwright";
 
 import {
+  ArchiveMode,
   BrowserType,
+  CacheMode,
+  ConsentMode,
   FirefoxUserPrefs,
   MeasurementType,
+  MemoryBackend,
+  NetworkProfile,
+  NetworkProfileName,
   Path,
+  RunArchive,
   RunConfig,
+  RunConfigValues,
   VersionNumber,
 } from "./types.js";
+import {
+  ConsentRules,
+  defaultConsentRulesPath,
+  loadConsentRules,
+} from "./consent.js";
 import { getLogger, LoggingLevel } from "./logging.js";
+import { loadTrackerList, TrackerList } from "./measurements/classify.js";
+import { networkProfilePresets } from "./network-profile.js";
+import { Extension, loadExtensions } from "./extensions.js";
+import { loadScenario, Scenario } from "./scenario.js";
+import { defaultTraceCategories } from "./trace.js";
 
 const { R_OK, W_OK, X_OK } = constants;
 const programName = "privacy-perf-comparisons";
 const validSchemes = ["http:", "https:"];
 
+// Measurements that use the Chrome DevTools Protocol, and so can only be
+// run in Chromium browsers. Since they can't be run in every browser, they
+// aren't performed by default.
+const chromiumOnlyMeasurements = [MeasurementType.CDPMetrics];
+
+// Measurements that write files alongside the report, and so need an
+// --output file or directory.
+const artifactMeasurements = [MeasurementType.Visual];
+
+// Measurements that aren't performed unless requested with --measurements.
+// The visual measurement is among them since taking screenshots adds work
+// for the browser while the page loads.
+const optInMeasurements = [...chromiumOnlyMeasurements, MeasurementType.Visual];
+
+// Reading the memory and CPU use of every browser process takes long
+// enough that sampling more often than this mostly results in skipped
+// samples.
+const minMemoryCPUIntervalMs = 250;
+
 export const defaultLaunchArgs = (): Partial<RunConfig> => {
   return {
     browser: BrowserType.Chromium,
+    cacheMode: CacheMode.Cold,
+    consent: ConsentMode.Ignore,
+    har: false,
     loggingLevel: LoggingLevel.Info,
-    measurements: Object.values(MeasurementType),
+    measurements: Object.values(MeasurementType).filter((x) => {
+      return !optInMeasurements.includes(x);
+    }),
+    memoryBackend: MemoryBackend.PIDUsage,
+    memoryCPUInterval: 5000,
     preservePages: false,
+    repeat: 1,
     seconds: 30,
     timeout: 30,
+    trace: false,
     viewport: {
       height: 720,
       width: 1280,
@@ -115,9 +161,14 @@ const isPathToWritableFile = async (...segments: Path[]): Promise<boolean> => {
   return await fileCheck(W_OK, ...segments);
 };
 
-const makeResultFilename = async (dir: Path, url: URL): Promise<Path> => {
-  const fileName = url.hostname.replace(/[^a-z0-9.\-_]/gi, "_").toLowerCase();
-  const fileExt = ".json";
+// Returns a path to a file in the given directory that does not exist yet,
+// by appending an increasing number (e.g., "name_1.json", "name_2.json")
+// to the given name until we find one that's available.
+export const makeUniqueFilename = async (
+  dir: Path,
+  fileName: string,
+  fileExt: string,
+): Promise<Path> => {
   const attemptMax = 1000;
 
   let attempt = 0;
@@ -135,10 +186,20 @@ const makeResultFilename = async (dir: Path, url: URL): Promise<Path> => {
       "files already exist.\n" +
       `target directory: ${dir}\n` +
       `initial attempted file: ${fileName}${fileExt}\n` +
-      `other attempts: ${fileName}_[1...${attemptMax.toString()}].json`,
+      `other attempts: ${fileName}_[1...${attemptMax.toString()}]${fileExt}`,
   );
 };
 
+// Replace any characters that might be a problem in a filename.
+export const toSafeFilename = (text: string): string => {
+  return text.replace(/[^a-z0-9.\-_]/gi, "_").toLowerCase();
+};
+
+const makeResultFilename = async (dir: Path, url: URL): Promise<Path> => {
+  const fileName = toSafeFilename(url.hostname);
+  return await makeUniqueFilename(dir, fileName, ".json");
+};
+
 const ignoreConfChecksEnvVarName = "PERF_CHECKS_IGNORE";
 const shouldIgnoreConfChecks = (): boolean => {
   if (process.env[ignoreConfChecksEnvVarName] === "1") {
@@ -158,13 +219,23 @@ const shouldIgnoreConfChecks = (): boolean => {
 // - if the output argument matches a directory on disk, then we generate
 //   a filename based on the initial URL being measured, and write to that file
 // - Otherwise, try to write results to the given path.
+interface ResultsHandle {
+  handle: Writable;
+  // Undefined when results are written to STDOUT.
+  path?: Path;
+}
+
+const isOutputToStdout = (output: undefined | Path): output is undefined => {
+  return output === undefined || output.trim().length === 0 || output === "-";
+};
+
 const handleForResults = async (
   output: undefined | Path,
   url: URL,
-): Promise<Writable> => {
+): Promise<ResultsHandle> => {
   // Case 1, in the function docblock: write to stdout.
-  if (output === undefined || output.trim().length === 0 || output === "-") {
-    return process.stdout;
+  if (isOutputToStdout(output)) {
+    return { handle: process.stdout };
   }
 
   // Case 2 in the function docblock: write to given path.
@@ -172,7 +243,10 @@ const handleForResults = async (
     if (!(await isPathToWritableFile(output))) {
       throw new Error(`--output path is not writeable: "${output}"`);
     }
-    return (await open(output, "w")).createWriteStream();
+    return {
+      handle: (await open(output, "w")).createWriteStream(),
+      path: output,
+    };
   }
 
   // Case 3 in function docblock: write to file in given directory.
@@ -181,40 +255,528 @@ const handleForResults = async (
       throw new Error(`--output directory is not writeable: "${output}"`);
     }
     const resultPath = await makeResultFilename(output, url);
-    return (await open(resultPath, "w")).createWriteStream();
+    return {
+      handle: (await open(resultPath, "w")).createWriteStream(),
+      path: resultPath,
+    };
   }
 
   // Case 4, try to write to the given output path.
-  return (await open(output, "w")).createWriteStream();
+  return {
+    handle: (await open(output, "w")).createWriteStream(),
+    path: output,
+  };
 };
 
-export const runConfigForArgs = async (args: Namespace): Promise<RunConfig> => {
-  const loggingLevel = args.logging as LoggingLevel;
-  assert(Object.values(LoggingLevel).includes(loggingLevel));
-  const logger = getLogger(loggingLevel);
+// Checks that the given path is a directory we can write result files into.
+// Used by the modes that write more than one report per invocation (e.g.,
+// --url-file), where --output can only be a directory.
+export const assertIsOutputDir = async (output: unknown): Promise<Path> => {
+  if (typeof output !== "string" || output.trim().length === 0) {
+    throw new Error(
+      "Must provide an --output directory when measuring more than one URL.",
+    );
+  }
+  if (!(await isPathToDir(output))) {
+    throw new Error(
+      `--output must be a directory when measuring more than one URL: "${output}"`,
+    );
+  }
+  if (!(await isPathToWriteableDir(output))) {
+    throw new Error(`--output directory is not writeable: "${output}"`);
+  }
+  return output;
+};
 
-  const log = logger.prefixedLogger("runConfigForArgs(): ");
-  log.verbose("Raw arguments=", args);
+// Checks that the given path is a directory the validate command can write
+// upgraded copies of reports into.
+export const assertIsUpgradeDir = async (output: string): Promise<Path> => {
+  if (output.trim().length === 0 || !(await isPathToDir(output))) {
+    throw new Error(
+      "--output must be a directory to write upgraded reports into: " +
+        `"${output}"`,
+    );
+  }
+  if (!(await isPathToWriteableDir(output))) {
+    throw new Error(`--output directory is not writeable: "${output}"`);
+  }
+  return output;
+};
 
-  assert(args.url instanceof URL);
-  if (!validSchemes.includes(args.url.protocol)) {
+// Creates a new, empty temp dir (e.g., the user-data dir for a trial of
+// a run that wasn't given a --user-data-dir). The caller removes it with
+// remove().
+export const makeTempDir = async () => {
+  return await mkdtempDisposable(join(tmpdir(), programName));
+};
+
+// Returns the path to write a file to alongside the report for a run
+// (e.g., "results/example.com.page-1.har" for the report
+// "results/example.com.json").
+export const artifactPath = (runConfig: RunConfig, suffix: string): Path => {
+  const { artifactsPrefix } = runConfig;
+  if (artifactsPrefix === undefined) {
+    throw new Error(
+      "Unable to write files alongside the report, since the report is " +
+        "being written to STDOUT.",
+    );
+  }
+  return `${artifactsPrefix}.${suffix}`;
+};
+
+type ValueCheck = (value: unknown) => boolean;
+const isString: ValueCheck = (x) => typeof x === "string";
+const isNumber: ValueCheck = (x) => typeof x === "number";
+// For the values the CLI parses as ints.
+const isInteger: ValueCheck = (x) => Number.isInteger(x);
+const isBoolean: ValueCheck = (x) => typeof x === "boolean";
+const isStringArray: ValueCheck = (x) => Array.isArray(x) && x.every(isString);
+const isObject: ValueCheck = (x) => {
+  return typeof x === "object" && x !== null && !Array.isArray(x);
+};
+const isOneOf = (choices: string[]): ValueCheck => {
+  return (x) => isString(x) && choices.includes(x as string);
+};
+
+const runConfigValueChecks: Record<
+  keyof RunConfigValues,
+  [ValueCheck, string]
+> = {
+  args: [isStringArray, "an array of strings"],
+  binary: [isString, "a string"],
+  browser: [
+    isOneOf(Object.values(BrowserType)),
+    "one of: " + Object.values(BrowserType).join(", "),
+  ],
+  cacheMode: [
+    isOneOf(Object.values(CacheMode)),
+    "one of: " + Object.values(CacheMode).join(", "),
+  ],
+  consent: [
+    isOneOf(Object.values(ConsentMode)),
+    "one of: " + Object.values(ConsentMode).join(", "),
+  ],
+  consentRules: [isString, "a string"],
+  extensions: [isStringArray, "an array of strings"],
+  firefoxUserPrefs: [isObject, "an object"],
+  har: [isBoolean, "a boolean"],
+  loggingLevel: [
+    isOneOf(Object.values(LoggingLevel)),
+    "one of: " + Object.values(LoggingLevel).join(", "),
+  ],
+  measurements: [
+    (x) =>
+      isStringArray(x) &&
+      (x as string[]).every(isOneOf(Object.values(MeasurementType))),
+    "an array including only: " + Object.values(MeasurementType).join(", "),
+  ],
+  memoryBackend: [
+    isOneOf(Object.values(MemoryBackend)),
+    "one of: " + Object.values(MemoryBackend).join(", "),
+  ],
+  memoryCPUInterval: [isInteger, "an integer"],
+  networkProfile: [
+    (x) => {
+      if (!isObject(x)) {
+        return false;
+      }
+      const { name, latency, download, upload } = x as Record<string, unknown>;
+      return (
+        (name === undefined ||
+          isOneOf(Object.values(NetworkProfileName))(name)) &&
+        (latency === undefined || isInteger(latency)) &&
+        [download, upload].every((y) => y === undefined || isNumber(y))
+      );
+    },
+    'an object with a "name" (one of: ' +
+      Object.values(NetworkProfileName).join(", ") +
+      '), an integer "latency" value, and numeric "download" and "upload" ' +
+      "values",
+  ],
+  output: [isString, "a string"],
+  preservePages: [isBoolean, "a boolean"],
+  record: [isString, "a string"],
+  repeat: [isInteger, "an integer"],
+  replay: [isString, "a string"],
+  scenario: [isString, "a string"],
+  seconds: [isInteger, "an integer"],
+  timeout: [isInteger, "an integer"],
+  trace: [isBoolean, "a boolean"],
+  traceCategories: [isStringArray, "an array of strings"],
+  trackerList: [isString, "a string"],
+  url: [isString, "a string"],
+  userDataDir: [isString, "a string"],
+  viewport: [
+    (x) => {
+      if (!isObject(x)) {
+        return false;
+      }
+      const { height, width } = x as Record<string, unknown>;
+      return (
+        (height === undefined || isInteger(height)) &&
+        (width === undefined || isInteger(width))
+      );
+    },
+    'an object with integer "height" and "width" values',
+  ],
+};
+
+// Checks that the given data (e.g., read from a JSON file) only contains
+// known run config values, of the expected types. The "source" argument
+// is used to describe where the values came from in error messages.
+export const parseRunConfigValues = (
+  data: unknown,
+  source: string,
+): RunConfigValues => {
+  if (!isObject(data)) {
+    throw new Error(`Expected an object of config values in ${source}.`);
+  }
+
+  for (const [aKey, aValue] of Object.entries(data as object)) {
+    if (!Object.hasOwn(runConfigValueChecks, aKey)) {
+      throw new Error(
+        `Unknown config value "${aKey}" in ${source}. Known values are: ` +
+          Object.keys(runConfigValueChecks).join(", "),
+      );
+    }
+    const [check, expectedDesc] =
+      runConfigValueChecks[aKey as keyof RunConfigValues];
+    if (!check(aValue)) {
+      throw new Error(
+        `Invalid config value "${aKey}" in ${source}. Must be ${expectedDesc}.`,
+      );
+    }
+  }
+  return data as RunConfigValues;
+};
+
+// Converts run config values into the same form (i.e., names and types) that
+// argparse would produce for the matching CLI arguments, so that they can be
+// validated and turned into a RunConfig by runConfigForArgs(). Values that
+// are not set are not included in the result.
+export const argsForRunConfigValues = (
+  values: RunConfigValues,
+): Record<string, unknown> => {
+  const args: Record<string, unknown> = {};
+  if (values.args !== undefined) {
+    // CLI arguments are given without the leading "--" (see --args), but
+    // accept either form in files.
+    args.args = values.args.map((x) => x.replace(/^--/, ""));
+  }
+  if (values.binary !== undefined) {
+    args.binary_path = values.binary;
+  }
+  if (values.browser !== undefined) {
+    args.browser = values.browser;
+  }
+  if (values.cacheMode !== undefined) {
+    args.cache_mode = values.cacheMode;
+  }
+  if (values.consent !== undefined) {
+    args.consent = values.consent;
+  }
+  if (values.consentRules !== undefined) {
+    args.consent_rules = values.consentRules;
+  }
+  if (values.extensions !== undefined) {
+    args.extension = values.extensions;
+  }
+  if (values.firefoxUserPrefs !== undefined) {
+    args.firefox_user_prefs = JSON.stringify(values.firefoxUserPrefs);
+  }
+  if (values.har !== undefined) {
+    args.har = values.har;
+  }
+  if (values.loggingLevel !== undefined) {
+    args.logging = values.loggingLevel;
+  }
+  if (values.measurements !== undefined) {
+    args.measurements = values.measurements;
+  }
+  if (values.memoryBackend !== undefined) {
+    args.memory_backend = values.memoryBackend;
+  }
+  if (values.memoryCPUInterval !== undefined) {
+    args.memory_cpu_interval = values.memoryCPUInterval;
+  }
+  if (values.networkProfile?.name !== undefined) {
+    args.network_profile = values.networkProfile.name;
+  }
+  if (values.networkProfile?.latency !== undefined) {
+    args.network_latency = values.networkProfile.latency;
+  }
+  if (values.networkProfile?.download !== undefined) {
+    args.network_download = values.networkProfile.download;
+  }
+  if (values.networkProfile?.upload !== undefined) {
+    args.network_upload = values.networkProfile.upload;
+  }
+  if (values.output !== undefined) {
+    args.output = values.output;
+  }
+  if (values.preservePages !== undefined) {
+    args.preserve_pages = values.preservePages;
+  }
+  if (values.record !== undefined) {
+    args.record = values.record;
+  }
+  if (values.repeat !== undefined) {
+    args.repeat = values.repeat;
+  }
+  if (values.replay !== undefined) {
+    args.replay = values.replay;
+  }
+  if (values.scenario !== undefined) {
+    args.scenario = values.scenario;
+  }
+  if (values.seconds !== undefined) {
+    args.seconds = values.seconds;
+  }
+  if (values.timeout !== undefined) {
+    args.timeout = values.timeout;
+  }
+  if (values.trace !== undefined) {
+    args.trace = values.trace;
+  }
+  if (values.traceCategories !== undefined) {
+    args.trace_categories = values.traceCategories.join(",");
+  }
+  if (values.trackerList !== undefined) {
+    args.tracker_list = values.trackerList;
+  }
+  if (values.url !== undefined) {
+    try {
+      args.url = new URL(values.url);
+    } catch {
+      throw new Error(`Invalid URL: "${values.url}"`);
+    }
+  }
+  if (values.userDataDir !== undefined) {
+    args.user_data_dir = values.userDataDir;
+  }
+  if (values.viewport?.height !== undefined) {
+    args.height = values.viewport.height;
+  }
+  if (values.viewport?.width !== undefined) {
+    args.width = values.viewport.width;
+  }
+  return args;
+};
+
+// Reads the run config values in a --config file (a JSON object, using
+// the same names as RunConfigValues).
+export const loadRunConfigValues = async (
+  path: Path,
+): Promise<RunConfigValues> => {
+  let configData: unknown;
+  try {
+    configData = JSON.parse(await readFile(path, "utf8"));
+  } catch (err: unknown) {
+    throw new Error(
+      `Unable to read --config file "${path}": ` + (err as Error).toString(),
+    );
+  }
+  return parseRunConfigValues(configData, `--config file "${path}"`);
+};
+
+// The binary Playwright provides for the browser, which is used when no
+// --binary-path is given (Playwright doesn't provide a Brave binary).
+const playwrightBinaryPath = (browser: BrowserType): Path | undefined => {
+  switch (browser) {
+    case BrowserType.Brave:
+      return undefined;
+    case BrowserType.Chromium:
+      return chromium.executablePath();
+    case BrowserType.Gecko:
+      return firefox.executablePath();
+    case BrowserType.WebKit:
+      return webkit.executablePath();
+  }
+};
+
+// The inverse of argsForRunConfigValues(); describes a resolved run config
+// with the same values that can be read from a --config file, so that
+// a report's run config can be used to repeat the measurement. Values this
+// tool fills in itself (e.g., the Playwright binary, or a temporary
+// user-data dir) are left out, as is the output path, so that repeating
+// the measurement doesn't overwrite the original report.
+export const runConfigValuesForConfig = (
+  runConfig: RunConfig,
+): RunConfigValues => {
+  const { binary, browser } = runConfig;
+  return {
+    args: runConfig.args,
+    binary: binary === playwrightBinaryPath(browser) ? undefined : binary,
+    browser: runConfig.browser,
+    cacheMode: runConfig.cacheMode,
+    consent: runConfig.consent,
+    // The bundled rules are used by default, wherever this tool is installed.
+    consentRules:
+      runConfig.consentRules?.path === defaultConsentRulesPath
+        ? undefined
+        : runConfig.consentRules?.path,
+    extensions: runConfig.extensions.map((x) => x.path),
+    firefoxUserPrefs: runConfig.firefoxUserPrefs,
+    har: runConfig.har,
+    loggingLevel: runConfig.loggingLevel,
+    measurements: runConfig.measurements,
+    memoryBackend: runConfig.memoryBackend,
+    memoryCPUInterval: runConfig.memoryCPUInterval,
+    networkProfile: runConfig.networkProfile,
+    preservePages: runConfig.preservePages,
+    record:
+      runConfig.archive?.mode === ArchiveMode.Record
+        ? runConfig.archive.path
+        : undefined,
+    repeat: runConfig.repeat,
+    replay:
+      runConfig.archive?.mode === ArchiveMode.Replay
+        ? runConfig.archive.path
+        : undefined,
+    scenario: runConfig.scenario?.path,
+    seconds: runConfig.seconds,
+    timeout: runConfig.timeout,
+    trace: runConfig.trace,
+    traceCategories: runConfig.traceCategories,
+    trackerList: runConfig.trackerList?.path,
+    url: runConfig.url.toString(),
+    userDataDir: runConfig.userDataDir,
+    viewport: {
+      height: runConfig.viewport.height,
+      width: runConfig.viewport.width,
+    },
+  };
+};
+
+// Builds the network profile to emulate from the --network-profile argument,
+// with the preset's values replaced by any --network-latency,
+// --network-download and --network-upload arguments (all of which are
+// required for a "custom" profile).
+const networkProfileForArgs = (args: Namespace): NetworkProfile | undefined => {
+  const { network_download, network_latency, network_profile, network_upload } =
+    args;
+  const customValues = [network_latency, network_download, network_upload];
+  if (network_profile === undefined) {
+    if (customValues.some((x) => x !== undefined)) {
+      throw new Error(
+        "The --network-latency, --network-download and --network-upload " +
+          "arguments require a --network-profile (e.g., " +
+          `'--network-profile ${NetworkProfileName.Custom}').`,
+      );
+    }
+    return undefined;
+  }
+
+  const name = network_profile as NetworkProfileName;
+  assert(Object.values(NetworkProfileName).includes(name));
+  const preset =
+    name === NetworkProfileName.Custom
+      ? undefined
+      : networkProfilePresets[name];
+  const latency = (network_latency ?? preset?.latency) as number | undefined;
+  const download = (network_download ?? preset?.download) as number | undefined;
+  const upload = (network_upload ?? preset?.upload) as number | undefined;
+  if (latency === undefined || download === undefined || upload === undefined) {
+    throw new Error(
+      `A '--network-profile ${NetworkProfileName.Custom}' requires the ` +
+        "--network-latency, --network-download and --network-upload " +
+        "arguments.",
+    );
+  }
+  if (latency < 0 || download <= 0 || upload <= 0) {
+    throw new Error(
+      "The --network-latency argument can't be negative, and the " +
+        "--network-download and --network-upload arguments must be " +
+        "positive numbers.",
+    );
+  }
+  return { name, latency, download, upload };
+};
+
+// Builds the archive to record responses into (with --record), or to
+// replay responses from (with --replay), if either was given.
+const runArchiveForArgs = async (
+  args: Namespace,
+): Promise<RunArchive | undefined> => {
+  const { record, repeat, replay } = args;
+  if (record !== undefined && replay !== undefined) {
+    throw new Error(
+      "The --record and --replay arguments can't be used together.",
+    );
+  }
+
+  if (record !== undefined) {
+    assert(typeof record === "string");
+    if (repeat !== 1) {
+      throw new Error(
+        "The --record argument can't be used with --repeat, since each " +
+          "trial would replace the archive. Record the archive once, and " +
+          "then --replay it for each trial.",
+      );
+    }
+    if (!(await isPathToWriteableDir(dirname(record)))) {
+      throw new Error(
+        `Unable to write --record archive "${record}", since its directory ` +
+          "doesn't exist or isn't writeable.",
+      );
+    }
+    return { mode: ArchiveMode.Record, path: record };
+  }
+
+  if (replay !== undefined) {
+    assert(typeof replay === "string");
+    if (!(await isPathToFile(replay))) {
+      throw new Error(`--replay archive "${replay}" does not exist.`);
+    }
+    return { mode: ArchiveMode.Replay, path: replay };
+  }
+  return undefined;
+};
+
+// Checks that the URL is one we can measure (i.e., a http(s) URL with
+// a hostname).
+export const assertIsMeasurableURL = (url: URL) => {
+  if (!validSchemes.includes(url.protocol)) {
     throw new Error(
       "Invalid URL. Must contain a http(s) scheme and hostname. Received " +
-        `scheme "${args.url.protocol}"`,
+        `scheme "${url.protocol}"`,
     );
   }
 
-  if (!args.url.hostname) {
+  if (!url.hostname) {
     throw new Error(
       "Invalid URL. Must contain a hostname. Received " +
-        `hostname "${args.url.hostname}"`,
+        `hostname "${url.hostname}"`,
     );
   }
+};
+
+export const runConfigForArgs = async (args: Namespace): Promise<RunConfig> => {
+  const loggingLevel = args.logging as LoggingLevel;
+  assert(Object.values(LoggingLevel).includes(loggingLevel));
+  const logger = getLogger(loggingLevel);
+
+  const log = logger.prefixedLogger("runConfigForArgs(): ");
+  log.verbose("Raw arguments=", args);
+
+  if (args.url === undefined) {
+    throw new Error(
+      "Must provide a URL to measure, either with --url, or as the " +
+        '"url" value in a --config file.',
+    );
+  }
+  assert(args.url instanceof URL);
+  assertIsMeasurableURL(args.url);
 
   if (args.seconds <= 0) {
     throw new Error('Invalid "seconds". Must be a positive integer.');
   }
 
+  assert(typeof args.repeat === "number");
+  if (args.repeat <= 0) {
+    throw new Error("The --repeat argument must be a positive integer.");
+  }
+
   const isChromium =
     args.browser === BrowserType.Chromium || args.browser === BrowserType.Brave;
 
@@ -263,12 +825,10 @@ export const runConfigForArgs = async (args: Namespace): Promise<RunConfig> => {
     isChromium &&
     isUserDataDirExisting;
 
-  let validatedUserDataDir;
+  let validatedUserDataDir: Path | undefined;
   log.verbose("--user-data-dir validation");
   if (isCaseOne) {
-    const tempDirPath = await mkdtempDisposable(join(tmpdir(), programName));
-    validatedUserDataDir = tempDirPath.path;
-    log.verbose("\t", "- creating temp user-data dir: ", validatedUserDataDir);
+    log.verbose("\t", "- using a new temp user-data dir for each trial");
   } else if (isCaseTwo) {
     validatedUserDataDir = userDataDirArg;
     log.verbose("\t", "- creating new user-data dir: ", validatedUserDataDir);
@@ -289,8 +849,6 @@ export const runConfigForArgs = async (args: Namespace): Promise<RunConfig> => {
         "chromium).",
     );
   }
-  assert(validatedUserDataDir);
-
   // We only allow the `binary` argument for Chromium-family browsers,
   // since we can do our measurements on the "stock" versions of these.
   // For Gecko and WebKit browsers, these require the playwright patches
@@ -302,25 +860,14 @@ export const runConfigForArgs = async (args: Namespace): Promise<RunConfig> => {
   // playwright binaries.
   let isUsingPlaywrightBinary = false;
   if (args.binary_path === undefined) {
-    switch (args.browser) {
-      case BrowserType.Brave:
-        throw new Error(
-          "Must include a binary path when testing Brave (since " +
-            "playwright does not have a default Brave binary included).",
-        );
-      case BrowserType.Chromium:
-        isUsingPlaywrightBinary = true;
-        binaryPath = chromium.executablePath();
-        break;
-      case BrowserType.Gecko:
-        isUsingPlaywrightBinary = true;
-        binaryPath = firefox.executablePath();
-        break;
-      case BrowserType.WebKit:
-        isUsingPlaywrightBinary = true;
-        binaryPath = webkit.executablePath();
-        break;
+    binaryPath = playwrightBinaryPath(args.browser as BrowserType);
+    if (binaryPath === undefined) {
+      throw new Error(
+        "Must include a binary path when testing Brave (since " +
+          "playwright does not have a default Brave binary included).",
+      );
     }
+    isUsingPlaywrightBinary = true;
   } else {
     assert(typeof args.binary_path === "string");
     if (!(await isPathToExecFile(args.binary_path))) {
@@ -383,13 +930,159 @@ export const runConfigForArgs = async (args: Namespace): Promise<RunConfig> => {
     }
   }
 
+  const mesRequiringChromium = mesToPerform.filter((x) => {
+    return chromiumOnlyMeasurements.includes(x);
+  });
+  if (mesRequiringChromium.length > 0 && !isChromium) {
+    throw new Error(
+      `The ${mesRequiringChromium.join(", ")} measurement can only be run ` +
+        "in Chromium browsers (i.e., '--browser " +
+        `${BrowserType.Chromium}' or '--browser ${BrowserType.Brave}'), ` +
+        "since it uses the Chrome DevTools Protocol.",
+    );
+  }
+
   assert(typeof args.height === "number");
   assert(typeof args.width === "number");
   assert(typeof args.seconds === "number");
 
+  assert(typeof args.har === "boolean");
+  if (args.har && !mesToPerform.includes(MeasurementType.Network)) {
+    throw new Error(
+      "The --har argument requires the network measurement (i.e., " +
+        `'--measurements ${MeasurementType.Network}').`,
+    );
+  }
+
+  const cacheMode = args.cache_mode as CacheMode;
+  assert(Object.values(CacheMode).includes(cacheMode));
+
+  const memoryBackend = args.memory_backend as MemoryBackend;
+  assert(Object.values(MemoryBackend).includes(memoryBackend));
+  if (memoryBackend === MemoryBackend.Proc && process.platform !== "linux") {
+    throw new Error(
+      `The '--memory-backend ${MemoryBackend.Proc}' argument is only ` +
+        "supported on Linux, since it reads process information from /proc.",
+    );
+  }
+
+  assert(typeof args.memory_cpu_interval === "number");
+  if (args.memory_cpu_interval < minMemoryCPUIntervalMs) {
+    throw new Error(
+      "The --memory-cpu-interval argument must be at least " +
+        `${minMemoryCPUIntervalMs.toString()}ms.`,
+    );
+  }
+
+  let trackerList: TrackerList | undefined;
+  if (args.tracker_list !== undefined) {
+    assert(typeof args.tracker_list === "string");
+    const mesUsingTrackerList = [
+      MeasurementType.Network,
+      MeasurementType.Storage,
+      MeasurementType.Timing,
+    ];
+    if (!mesToPerform.some((x) => mesUsingTrackerList.includes(x))) {
+      throw new Error(
+        "The --tracker-list argument requires at least one of the " +
+          `measurements that use it: ${mesUsingTrackerList.join(", ")}.`,
+      );
+    }
+    trackerList = await loadTrackerList(args.tracker_list);
+  }
+
+  const archive = await runArchiveForArgs(args);
+  if (archive?.mode === ArchiveMode.Replay && cacheMode !== CacheMode.Cold) {
+    throw new Error(
+      `The '--cache-mode ${cacheMode}' argument can't be used with ` +
+        "--replay, since Playwright disables the HTTP cache when it routes " +
+        "requests, so loads would never use a warm cache.",
+    );
+  }
+
+  const consent = args.consent as ConsentMode;
+  assert(Object.values(ConsentMode).includes(consent));
+  let consentRules: ConsentRules | undefined;
+  if (consent !== ConsentMode.Ignore) {
+    const consentRulesPath = (args.consent_rules ??
+      defaultConsentRulesPath) as unknown;
+    assert(typeof consentRulesPath === "string");
+    consentRules = await loadConsentRules(consentRulesPath);
+  } else if (args.consent_rules !== undefined) {
+    throw new Error(
+      "The --consent-rules argument requires a --consent mode other " +
+        `than '${ConsentMode.Ignore}'.`,
+    );
+  }
+
+  let extensions: Extension[] = [];
+  if (args.extension !== undefined) {
+    assert(Array.isArray(args.extension));
+    if (browserType === BrowserType.WebKit) {
+      throw new Error(
+        "The --extension argument can only be used with Chromium browsers " +
+          `(i.e., '--browser ${BrowserType.Chromium}' or '--browser ` +
+          `${BrowserType.Brave}'), or '--browser ${BrowserType.Gecko}'.`,
+      );
+    }
+    extensions = await loadExtensions(args.extension as string[], browserType);
+  }
+
+  let scenario: Scenario | undefined;
+  if (args.scenario !== undefined) {
+    assert(typeof args.scenario === "string");
+    scenario = await loadScenario(args.scenario);
+  }
+
+  // The output is only opened once every other argument has been checked,
+  // so that invalid arguments don't leave an empty report behind.
   assert(!args.output || typeof args.output === "string");
   const outputPath = args.output as undefined | "string";
-  const outputHandle = await handleForResults(outputPath, args.url);
+  const isToStdout = isOutputToStdout(outputPath);
+  if (args.har && isToStdout) {
+    throw new Error(
+      "The --har argument requires an --output file or directory, since " +
+        "HAR files are written alongside the report.",
+    );
+  }
+  const mesWritingArtifacts = mesToPerform.filter((x) => {
+    return artifactMeasurements.includes(x);
+  });
+  if (mesWritingArtifacts.length > 0 && isToStdout) {
+    throw new Error(
+      `The ${mesWritingArtifacts.join(", ")} measurement requires an ` +
+        "--output file or directory, since it writes files alongside the " +
+        "report.",
+    );
+  }
+
+  assert(typeof args.trace === "boolean");
+  if (args.trace && isToStdout) {
+    throw new Error(
+      "The --trace argument requires an --output file or directory, since " +
+        "trace files are written alongside the report.",
+    );
+  }
+  let traceCategories: string[] | undefined;
+  if (args.trace_categories !== undefined) {
+    assert(typeof args.trace_categories === "string");
+    if (!args.trace || !isChromium) {
+      throw new Error(
+        "The --trace-categories argument requires --trace, and a Chromium " +
+          `browser (i.e., '--browser ${BrowserType.Chromium}' or ` +
+          `'--browser ${BrowserType.Brave}').`,
+      );
+    }
+    traceCategories = args.trace_categories
+      .split(",")
+      .map((x) => x.trim())
+      .filter((x) => x !== "");
+    if (traceCategories.length === 0) {
+      throw new Error("The --trace-categories argument must not be empty.");
+    }
+  } else if (args.trace && isChromium) {
+    traceCategories = defaultTraceCategories;
+  }
 
   assert(typeof args.preserve_pages === "boolean");
   const preservePages = args.preserve_pages;
@@ -420,17 +1113,42 @@ export const runConfigForArgs = async (args: Namespace): Promise<RunConfig> => {
     }
   }
 
+  const networkProfile = networkProfileForArgs(args);
+
+  const results = await handleForResults(outputPath, args.url);
+  let artifactsPrefix: Path | undefined;
+  if (results.path !== undefined) {
+    const reportName = basename(results.path, extname(results.path));
+    artifactsPrefix = join(dirname(results.path), reportName);
+  }
+
   return {
+    archive: archive,
     args: additionalArgs,
+    artifactsPrefix: artifactsPrefix,
     binary: binaryPath,
     browser: browserType,
+    cacheMode: cacheMode,
+    consent: consent,
+    consentRules: consentRules,
+    extensions: extensions,
     firefoxUserPrefs: firefoxPrefs,
+    har: args.har,
     loggingLevel: loggingLevel,
     measurements: mesToPerform,
-    output: outputHandle,
+    memoryBackend: memoryBackend,
+    memoryCPUInterval: args.memory_cpu_interval,
+    networkProfile: networkProfile,
+    output: results.handle,
+    outputPath: results.path,
     preservePages: preservePages,
+    repeat: args.repeat,
+    scenario: scenario,
     seconds: args.seconds,
     timeout: args.timeout,
+    trace: args.trace,
+    traceCategories: traceCategories,
+    trackerList: trackerList,
     url: args.url,
     userDataDir: validatedUserDataDir,
     viewport: {
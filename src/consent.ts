@@ -0,0 +1,204 @@
+import { readFile } from "node:fs/promises";
+import { fileURLToPath } from "node:url";
+
+import { Page } from "@playwright/test";
+
+import { Logger } from "./logging.js";
+import { ConsentMode, ConsentResult, Path, RunConfig } from "./types.js";
+
+// How to detect a consent management platform's (CMP's) banner, and which
+// elements to click (in order) to accept or reject consent in it.
+interface ConsentRule {
+  name: string;
+  // Selector for an element in the page that's only visible while the
+  // banner is shown.
+  detect: string;
+  // Selector for the iframe the banner's buttons are in, if they're not
+  // in the page itself.
+  frame?: string;
+  accept: string[];
+  reject: string[];
+}
+
+export interface ConsentRules {
+  path: Path;
+  cmps: ConsentRule[];
+}
+
+// The rules bundled with this tool, used unless --consent-rules is given.
+export const defaultConsentRulesPath: Path = fileURLToPath(
+  new URL("../rules/consent.json", import.meta.url),
+);
+
+// How long to look for a banner after navigating to the URL, since CMPs
+// usually show their banners after the page has started loading (or less,
+// if the page is left to load for less time than this).
+const consentDetectionMs = 10 * 1000;
+const consentPollIntervalMs = 500;
+
+const isStringArray = (x: unknown): boolean => {
+  return Array.isArray(x) && x.every((y) => typeof y === "string");
+};
+
+// Reads and checks a consent rules file. The file is JSON in the
+// following format (see rules/consent.json):
+// {
+//   "cmps": [
+//     {
+//       "name": "Example CMP",
+//       "detect": "#cmp-banner",
+//       "frame": "iframe#cmp-frame",
+//       "accept": ["button.accept-all"],
+//       "reject": ["button.more-options", "button.reject-all"]
+//     },
+//     ...
+//   ]
+// }
+// where "frame" is optional.
+export const loadConsentRules = async (path: Path): Promise<ConsentRules> => {
+  let rulesData: unknown;
+  try {
+    rulesData = JSON.parse(await readFile(path, "utf8"));
+  } catch (err: unknown) {
+    throw new Error(
+      `Unable to read --consent-rules file "${path}": ` +
+        (err as Error).toString(),
+    );
+  }
+
+  const source = `--consent-rules file "${path}"`;
+  const cmps = (rulesData as { cmps?: unknown } | null)?.cmps;
+  if (!Array.isArray(cmps)) {
+    throw new Error(`"cmps" in ${source} must be an array.`);
+  }
+  for (const [index, aRule] of cmps.entries()) {
+    const { name, detect, frame, accept, reject } = (aRule ?? {}) as Record<
+      string,
+      unknown
+    >;
+    if (
+      typeof name !== "string" ||
+      typeof detect !== "string" ||
+      (frame !== undefined && typeof frame !== "string") ||
+      !isStringArray(accept) ||
+      !isStringArray(reject)
+    ) {
+      throw new Error(
+        `Invalid "cmps[${index.toString()}]" in ${source}. Must have ` +
+          '"name" and "detect" strings, "accept" and "reject" arrays of ' +
+          'selectors, and optionally a "frame" selector.',
+      );
+    }
+  }
+  return { path: path, cmps: cmps as ConsentRule[] };
+};
+
+// Asks the page's IAB TCF API (if it has one) which CMP is providing it.
+// CMPs can take a while to respond, or never do, so this gives up
+// after a second.
+const injected_pingTCF = async (): Promise<number | null> => {
+  type TCFAPI = (
+    command: string,
+    version: number,
+    callback: (ping: { cmpId?: unknown }) => void,
+  ) => void;
+  const tcfapi = (window as unknown as { __tcfapi?: TCFAPI }).__tcfapi;
+  if (typeof tcfapi !== "function") {
+    return null;
+  }
+  return await new Promise((resolve) => {
+    setTimeout(() => {
+      resolve(null);
+    }, 1000);
+    tcfapi("ping", 2, (ping) => {
+      resolve(typeof ping.cmpId === "number" ? ping.cmpId : null);
+    });
+  });
+};
+
+const readTCFCMPId = async (page: Page): Promise<number | null> => {
+  try {
+    return await page.evaluate(injected_pingTCF);
+  } catch {
+    return null;
+  }
+};
+
+// Returns the first rule whose banner is visible in the page, looking until
+// one is found, or until detectionMs has passed.
+const detectConsentRule = async (
+  page: Page,
+  rules: ConsentRules,
+  detectionMs: number,
+): Promise<ConsentRule | null> => {
+  const deadline = Date.now() + detectionMs;
+  while (!page.isClosed()) {
+    for (const aRule of rules.cmps) {
+      try {
+        if (await page.locator(aRule.detect).first().isVisible()) {
+          return aRule;
+        }
+      } catch {
+        // The page may be navigating, in which case we try again.
+      }
+    }
+    if (Date.now() >= deadline) {
+      break;
+    }
+    await page.waitForTimeout(consentPollIntervalMs);
+  }
+  return null;
+};
+
+// Looks for a consent banner in the page, and (depending on the run
+// config's consent mode) accepts or rejects consent in it. Returns null
+// for the "ignore" consent mode, in which case the page isn't checked for
+// a banner at all.
+export const handleConsent = async (
+  logger: Logger,
+  page: Page,
+  runConfig: RunConfig,
+): Promise<ConsentResult | null> => {
+  const { consent, consentRules, seconds, timeout } = runConfig;
+  if (consent === ConsentMode.Ignore || consentRules === undefined) {
+    return null;
+  }
+
+  const log = logger.prefixedLogger("handleConsent(): ");
+  log.verbose("Looking for a consent banner");
+  const detectionStart = Date.now();
+  const detectionMs = Math.min(consentDetectionMs, seconds * 1000);
+  const rule = await detectConsentRule(page, consentRules, detectionMs);
+  const tcfCMPId = await readTCFCMPId(page);
+  const result: ConsentResult = {
+    mode: consent,
+    cmp: rule?.name ?? null,
+    tcfCMPId: tcfCMPId,
+    detectionMs: Date.now() - detectionStart,
+    actionTaken: false,
+    actionTime: null,
+    error: null,
+  };
+  if (rule === null) {
+    log.info("No consent banner detected");
+    return result;
+  }
+
+  log.info(`Detected consent banner from "${rule.name}", will ${consent}`);
+  const frame = rule.frame === undefined ? page : page.frameLocator(rule.frame);
+  const selectors = consent === ConsentMode.Accept ? rule.accept : rule.reject;
+  try {
+    for (const aSelector of selectors) {
+      await frame
+        .locator(aSelector)
+        .first()
+        .click({ timeout: timeout * 1000 });
+    }
+    result.actionTaken = selectors.length > 0;
+    result.actionTime = new Date();
+  } catch (err: unknown) {
+    result.error = err instanceof Error ? err.message : String(err);
+    log.error(`Unable to ${consent} consent: `, result.error);
+  }
+  return result;
+};
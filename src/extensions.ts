@@ -0,0 +1,286 @@
+import { createHash } from "node:crypto";
+import {
+  access,
+  copyFile,
+  mkdir,
+  readFile,
+  realpath,
+  stat,
+  unlink,
+} from "node:fs/promises";
+import { join, resolve } from "node:path";
+import { inflateRawSync } from "node:zlib";
+
+import { BrowserContext, Worker } from "@playwright/test";
+
+import { Logger } from "./logging.js";
+import { BrowserType, LoadedExtension, Path, RunConfig } from "./types.js";
+
+export interface Extension extends LoadedExtension {
+  // The script the extension runs as its background service worker (for
+  // Chromium extensions), or null if it doesn't have one.
+  serviceWorker: string | null;
+}
+
+interface ExtensionManifest {
+  name?: unknown;
+  version?: unknown;
+  key?: unknown;
+  background?: { service_worker?: unknown };
+  browser_specific_settings?: { gecko?: { id?: unknown } };
+  applications?: { gecko?: { id?: unknown } };
+}
+
+// Returns the (uncompressed) contents of the named file in a zip archive
+// (e.g., an XPI), or undefined if the archive doesn't contain the file.
+const readZipEntry = (data: Buffer, name: string): Buffer | undefined => {
+  // The "end of central directory" record is at the end of the archive,
+  // followed only by a comment of up to 64KB.
+  const minEndOffset = Math.max(data.length - 22 - 0xffff, 0);
+  let endOffset = data.length - 22;
+  while (
+    endOffset >= minEndOffset &&
+    data.readUInt32LE(endOffset) !== 0x06054b50
+  ) {
+    endOffset -= 1;
+  }
+  if (endOffset < minEndOffset) {
+    throw new Error("Not a zip archive.");
+  }
+
+  const numEntries = data.readUInt16LE(endOffset + 10);
+  let offset = data.readUInt32LE(endOffset + 16);
+  for (let i = 0; i < numEntries; i += 1) {
+    if (data.readUInt32LE(offset) !== 0x02014b50) {
+      throw new Error("Invalid zip central directory.");
+    }
+    const method = data.readUInt16LE(offset + 10);
+    const compressedSize = data.readUInt32LE(offset + 20);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const headerOffset = data.readUInt32LE(offset + 42);
+    const entryName = data.toString(
+      "utf8",
+      offset + 46,
+      offset + 46 + nameLength,
+    );
+    offset += 46 + nameLength + extraLength + commentLength;
+    if (entryName !== name) {
+      continue;
+    }
+
+    const dataOffset =
+      headerOffset +
+      30 +
+      data.readUInt16LE(headerOffset + 26) +
+      data.readUInt16LE(headerOffset + 28);
+    const entryData = data.subarray(dataOffset, dataOffset + compressedSize);
+    if (method === 0) {
+      return entryData;
+    } else if (method === 8) {
+      return inflateRawSync(entryData);
+    }
+    throw new Error(`Unsupported zip compression method ${method.toString()}.`);
+  }
+  return undefined;
+};
+
+// Chromium derives the ID of an unpacked extension from the SHA-256 hash of
+// its public key (if the manifest has one), or else of its path, writing
+// the first 128 bits of the hash with the letters "a" to "p" as digits.
+const chromiumExtensionId = (manifest: ExtensionManifest, path: Path) => {
+  const hashedData =
+    typeof manifest.key === "string"
+      ? Buffer.from(manifest.key, "base64")
+      : Buffer.from(path, "utf8");
+  const hash = createHash("sha256").update(hashedData).digest("hex");
+  return hash
+    .slice(0, 32)
+    .split("")
+    .map((x) => String.fromCharCode("a".charCodeAt(0) + parseInt(x, 16)))
+    .join("");
+};
+
+const loadChromiumExtension = async (path: Path): Promise<Extension> => {
+  if (!(await stat(path)).isDirectory()) {
+    throw new Error(
+      "Expected the directory of an unpacked extension for Chromium " +
+        "browsers.",
+    );
+  }
+  // Chromium identifies unpacked extensions by their absolute path, with
+  // any symlinks resolved.
+  const extensionPath = await realpath(path);
+  const manifest = JSON.parse(
+    await readFile(join(extensionPath, "manifest.json"), "utf8"),
+  ) as ExtensionManifest;
+  const serviceWorker = manifest.background?.service_worker;
+  return {
+    id: chromiumExtensionId(manifest, extensionPath),
+    name: String(manifest.name),
+    version: String(manifest.version),
+    path: extensionPath,
+    serviceWorker: typeof serviceWorker === "string" ? serviceWorker : null,
+  };
+};
+
+const loadGeckoExtension = async (path: Path): Promise<Extension> => {
+  if (!(await stat(path)).isFile()) {
+    throw new Error("Expected an XPI file for Gecko.");
+  }
+  const manifestData = readZipEntry(await readFile(path), "manifest.json");
+  if (manifestData === undefined) {
+    throw new Error("Expected an XPI file, with a manifest.json file in it.");
+  }
+  const manifest = JSON.parse(
+    manifestData.toString("utf8"),
+  ) as ExtensionManifest;
+  const id =
+    manifest.browser_specific_settings?.gecko?.id ??
+    manifest.applications?.gecko?.id;
+  if (typeof id !== "string") {
+    throw new Error(
+      "Extensions installed into a Firefox profile must set their ID in " +
+        '"browser_specific_settings.gecko.id" in their manifest.',
+    );
+  }
+  return {
+    id: id,
+    name: String(manifest.name),
+    version: String(manifest.version),
+    path: resolve(path),
+    serviceWorker: null,
+  };
+};
+
+// Reads the manifest of each --extension, checking that the extension can
+// be loaded into the browser: Chromium browsers load unpacked extensions
+// (i.e., directories), and Gecko installs XPI files.
+export const loadExtensions = async (
+  paths: Path[],
+  browser: BrowserType,
+): Promise<Extension[]> => {
+  const extensions: Extension[] = [];
+  for (const aPath of paths) {
+    // Chromium's --load-extension flag takes a comma separated list.
+    if (aPath.includes(",")) {
+      throw new Error(`--extension paths can't include commas: "${aPath}"`);
+    }
+    try {
+      if (browser === BrowserType.Gecko) {
+        extensions.push(await loadGeckoExtension(aPath));
+      } else {
+        extensions.push(await loadChromiumExtension(aPath));
+      }
+    } catch (err: unknown) {
+      throw new Error(
+        `Unable to read --extension "${aPath}": ` + (err as Error).toString(),
+      );
+    }
+  }
+  return extensions;
+};
+
+// The arguments that make Chromium browsers load the run config's
+// extensions.
+export const chromiumExtensionArgs = (runConfig: RunConfig): string[] => {
+  const { extensions } = runConfig;
+  if (extensions.length === 0) {
+    return [];
+  }
+  const paths = extensions.map((x) => x.path).join(",");
+  return [`--disable-extensions-except=${paths}`, `--load-extension=${paths}`];
+};
+
+const isPathTaken = async (path: Path): Promise<boolean> => {
+  try {
+    await access(path);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Firefox installs extensions found in the profile's "extensions" directory
+// (named with their IDs) when it starts, and the preferences set for
+// extensions in launchOptionsGecko() let it enable them without asking.
+// Returns the paths of the files that were installed, for removing with
+// uninstallGeckoExtensions() once the browser is closed. Extensions the
+// profile already had a file for are left in place afterwards.
+export const installGeckoExtensions = async (
+  logger: Logger,
+  runConfig: RunConfig,
+  userDataDir: Path,
+): Promise<Path[]> => {
+  const { extensions } = runConfig;
+  const installedPaths: Path[] = [];
+  if (extensions.length === 0) {
+    return installedPaths;
+  }
+  const extensionsDir = join(userDataDir, "extensions");
+  await mkdir(extensionsDir, { recursive: true });
+  for (const anExtension of extensions) {
+    const installPath = join(extensionsDir, `${anExtension.id}.xpi`);
+    if (!(await isPathTaken(installPath))) {
+      installedPaths.push(installPath);
+    }
+    logger.info(`Installing extension "${anExtension.id}" to "${installPath}"`);
+    await copyFile(anExtension.path, installPath);
+  }
+  return installedPaths;
+};
+
+// Removes the files installGeckoExtensions() installed, so that the
+// extensions aren't left in a --user-data-dir profile (Firefox uninstalls
+// them the next time it starts with the profile).
+export const uninstallGeckoExtensions = async (
+  logger: Logger,
+  installedPaths: Path[],
+): Promise<void> => {
+  for (const aPath of installedPaths) {
+    logger.verbose(`Removing installed extension "${aPath}"`);
+    try {
+      await unlink(aPath);
+    } catch (err: unknown) {
+      logger.error(`Unable to remove installed extension "${aPath}": `, err);
+    }
+  }
+};
+
+// Waits until each of the run config's extensions (in Chromium browsers)
+// has started its background service worker, so that extensions that
+// block requests are running before the page is loaded. Extensions without
+// service workers can't be waited for.
+export const waitForExtensions = async (
+  logger: Logger,
+  context: BrowserContext,
+  runConfig: RunConfig,
+): Promise<void> => {
+  const { extensions, timeout } = runConfig;
+  const log = logger.prefixedLogger("waitForExtensions(): ");
+  for (const anExtension of extensions) {
+    if (anExtension.serviceWorker === null) {
+      continue;
+    }
+    const isExtensionWorker = (worker: Worker) => {
+      return worker.url().startsWith(`chrome-extension://${anExtension.id}/`);
+    };
+    if (context.serviceWorkers().some(isExtensionWorker)) {
+      continue;
+    }
+    log.verbose(`Waiting for extension "${anExtension.id}" to start`);
+    try {
+      await context.waitForEvent("serviceworker", {
+        predicate: isExtensionWorker,
+        timeout: timeout * 1000,
+      });
+    } catch (err: unknown) {
+      throw new Error(
+        `The service worker for extension "${anExtension.name}" ` +
+          `("${anExtension.path}") didn't start: ` +
+          (err as Error).toString(),
+      );
+    }
+  }
+};
@@ -1,59 +1,143 @@
 import assert from "node:assert/strict";
+import { unlink } from "node:fs/promises";
 
-import { BrowserContext } from "@playwright/test";
+import { BrowserContext, Page } from "@playwright/test";
 
-import { getVersion } from "./config.js";
+import { startArchiveSession } from "./archive.js";
+import { launch } from "./browser.js";
+import { handleConsent } from "./consent.js";
+import { getVersion, makeTempDir, runConfigValuesForConfig } from "./config.js";
+import { waitForExtensions } from "./extensions.js";
 import { Logger } from "./logging.js";
 import {
   BaseMeasurer,
   MeasurementResult,
   BaseMeasurerChild,
 } from "./measurements/base.js";
+import { CDPMetricsMeasurer } from "./measurements/cdp-metrics.js";
 import { MemoryCPUMeasurer } from "./measurements/memory-cpu.js";
 import { NetworkMeasurer } from "./measurements/network.js";
+import { StorageMeasurer } from "./measurements/storage.js";
 import { TimingMeasurer } from "./measurements/timing.js";
-import { MeasurementType, Report } from "./types.js";
+import { VisualMeasurer } from "./measurements/visual.js";
+import {
+  appliedNetworkProfile,
+  emulateNetworkProfile,
+} from "./network-profile.js";
+import { runScenario } from "./scenario.js";
+import { reportSchemaVersion } from "./schema.js";
+import { summarizeTrials } from "./summary.js";
+import { startTrace } from "./trace.js";
+import {
+  CacheMode,
+  ConsentResult,
+  MeasurementResults,
+  MeasurementType,
+  Report,
+  RunConfig,
+  ScenarioStepResult,
+  Serializable,
+  TraceFiles,
+  TrialsReport,
+} from "./types.js";
 
 const measurerTypeToClassMap: Record<MeasurementType, BaseMeasurerChild> = {
+  [MeasurementType.CDPMetrics]: CDPMetricsMeasurer,
   [MeasurementType.MemoryCPU]: MemoryCPUMeasurer,
   [MeasurementType.Network]: NetworkMeasurer,
+  [MeasurementType.Storage]: StorageMeasurer,
   [MeasurementType.Timing]: TimingMeasurer,
+  [MeasurementType.Visual]: VisualMeasurer,
 };
 
-export const measureURL = async (
+interface PageLoad {
+  page: Page;
+  // When the navigation to the URL started.
+  startTime: Date;
+  // Null for the "ignore" consent mode.
+  consent: ConsentResult | null;
+  // Null if the run config doesn't have a scenario.
+  scenarioSteps: ScenarioStepResult[] | null;
+}
+
+interface MeasuredPageLoad extends PageLoad {
+  results: MeasurementResults;
+  // Null unless the run config has tracing enabled.
+  trace: TraceFiles | null;
+}
+
+// Opens a new (empty) page, emulating the run config's network profile
+// in it.
+const openPage = async (
   logger: Logger,
   context: BrowserContext,
-  url: URL,
-  seconds: number,
-  timeout: number,
-  measurements: MeasurementType[],
-  preservePages: boolean,
-): Promise<Report> => {
+  runConfig: RunConfig,
+): Promise<Page> => {
   const log = logger.prefixedLogger("Measure(): ");
-  const prevPages = context.pages();
-  const numPrevPages = prevPages.length;
-  log.verbose(`pages from previous session: ${numPrevPages.toString()} pages.`);
+  log.verbose("Creating empty page (i.e., new tab).");
+  const page = await context.newPage();
+  await emulateNetworkProfile(logger, context, page, runConfig);
+  return page;
+};
 
-  // Unless we're preserving existing pages, we need to force things to
-  // start in a clean profile by closing all open pages, and then
-  // re-enabling networking .
-  if (!preservePages) {
-    for (const aPage of prevPages) {
-      const pageUrl = aPage.url();
-      log.verbose("closing page: " + pageUrl);
-      await aPage.close();
-      log.verbose("page closed: " + pageUrl);
-    }
-    log.verbose("Re-enabling network for context.");
-    await context.setOffline(false);
-    log.verbose("Networking re-enabled.");
+// Navigates the page to the run config's URL, handles the page's consent
+// banner, runs the run config's scenario (if any), and then lets the page
+// load for the run config's "seconds" value.
+const loadURL = async (
+  logger: Logger,
+  page: Page,
+  runConfig: RunConfig,
+): Promise<PageLoad> => {
+  const { url, seconds, timeout } = runConfig;
+  const log = logger.prefixedLogger("Measure(): ");
+  const startTime = new Date();
+  log.info(`Navigating to url="${page.url()}"`);
+  const navRequest = await page.goto(url.toString(), {
+    timeout: timeout * 1000,
+    waitUntil: "commit",
+  });
+  assert(navRequest);
+
+  log.info(`Arrived at url="${page.url()}"`);
+  const consent = await handleConsent(logger, page, runConfig);
+  let scenarioSteps: ScenarioStepResult[] | null = null;
+  if (runConfig.scenario !== undefined) {
+    scenarioSteps = await runScenario(logger, page, runConfig);
   }
+  // The time spent looking for a consent banner is part of the time the
+  // page is left to load, so that it's the same whether or not the page
+  // shows a banner.
+  const loadMs = Math.max(seconds * 1000 - (consent?.detectionMs ?? 0), 0);
+  log.info(`Letting page load for "${String(loadMs / 1000)}" seconds`);
+  await page.waitForTimeout(loadMs);
+  return { page, startTime, consent, scenarioSteps };
+};
+
+// Navigates away from the page before closing it, the way a user leaves a
+// page, so that anything the page does when it's unloaded (e.g., storing
+// data, or sending beacons) happens before the page is loaded again.
+const leavePage = async (logger: Logger, page: Page) => {
+  const log = logger.prefixedLogger("Measure(): ");
+  log.verbose(`Leaving url="${page.url()}"`);
+  await page.goto("about:blank");
+  await page.close();
+};
+
+// Loads the run config's URL in a new page, measuring the load with a new
+// instance of each of the run config's measurers. The page is left open.
+const measureLoad = async (
+  logger: Logger,
+  context: BrowserContext,
+  runConfig: RunConfig,
+): Promise<MeasuredPageLoad> => {
+  const { measurements } = runConfig;
+  const log = logger.prefixedLogger("Measure(): ");
 
   // Create and instantiate any measurement classes that were requested
   const measurers = new Map<MeasurementType, BaseMeasurer>();
   for (const aMeasurementType of measurements) {
     const aMeasurerType = measurerTypeToClassMap[aMeasurementType];
-    const aMeasurer = new aMeasurerType(logger, url, context);
+    const aMeasurer = new aMeasurerType(logger, runConfig, context);
     aMeasurer.instrumentContext();
     log.verbose("Instrumenting context for measurement: ", aMeasurementType);
     measurers.set(aMeasurementType, aMeasurer);
@@ -68,24 +152,14 @@ export const measureURL = async (
   for (const aMeasurer of measurers.values()) {
     aMeasurer.start();
   }
-  log.verbose("Creating empty page (i.e., new tab).");
-  const page = await context.newPage();
-
-  const startTime = new Date();
-  log.info(`Navigating to url="${page.url()}"`);
-  const navRequest = await page.goto(url.toString(), {
-    timeout: timeout * 1000,
-    waitUntil: "commit",
-  });
-  assert(navRequest);
-
-  log.info(`Arrived at url="${page.url()}"`);
-  log.info(`Letting page load for "${String(seconds)}" seconds`);
-  await page.waitForTimeout(seconds * 1000);
+  const page = await openPage(logger, context, runConfig);
+  const traceSession = await startTrace(logger, context, page, runConfig);
+  const load = await loadURL(logger, page, runConfig);
 
   for (const aMeasurer of measurers.values()) {
     aMeasurer.close();
   }
+  const trace = traceSession === null ? null : await traceSession.finish();
 
   const eventDrainTimeMs: number = 5 * 1000;
   log.verbose(
@@ -94,23 +168,212 @@ export const measureURL = async (
   );
   await page.waitForTimeout(eventDrainTimeMs);
 
-  const results = {} as Record<MeasurementType, MeasurementResult | null>;
+  const results: MeasurementResults = {};
   const numMeasurements = measurers.size.toString();
   let measurementIndex = 0;
   for (const [aMeasurementType, aMeasurer] of measurers.entries()) {
     measurementIndex += 1;
     const prefix = `(${measurementIndex.toString()}/${numMeasurements}) `;
     log.info(prefix, `Collecting measurement "${aMeasurementType}"`);
-    results[aMeasurementType] = await aMeasurer.collect();
+    const result = await aMeasurer.collect();
+    (results as Record<MeasurementType, MeasurementResult | null>)[
+      aMeasurementType
+    ] = result;
   }
+  return { ...load, results, trace };
+};
+
+export const measureURL = async (
+  logger: Logger,
+  context: BrowserContext,
+  runConfig: RunConfig,
+): Promise<Report> => {
+  const { artifactsPrefix, cacheMode, url, preservePages } = runConfig;
+  const log = logger.prefixedLogger("Measure(): ");
+  const prevPages = context.pages();
+  const numPrevPages = prevPages.length;
+  log.verbose(`pages from previous session: ${numPrevPages.toString()} pages.`);
+
+  // Unless we're preserving existing pages, we need to force things to
+  // start in a clean profile by closing all open pages, and then
+  // re-enabling networking .
+  if (!preservePages) {
+    for (const aPage of prevPages) {
+      const pageUrl = aPage.url();
+      log.verbose("closing page: " + pageUrl);
+      await aPage.close();
+      log.verbose("page closed: " + pageUrl);
+    }
+    log.verbose("Re-enabling network for context.");
+    await context.setOffline(false);
+    log.verbose("Networking re-enabled.");
+  }
+  await waitForExtensions(logger, context, runConfig);
+
+  const archiveSession = await startArchiveSession(logger, context, runConfig);
+
+  // For a warm cache, the page is loaded (without being measured) and left
+  // before the load that's measured.
+  if (cacheMode === CacheMode.Warm) {
+    log.info("Loading the page to prime the cache.");
+    const page = await openPage(logger, context, runConfig);
+    await loadURL(logger, page, runConfig);
+    await leavePage(logger, page);
+  }
+
+  const firstLoad = await measureLoad(logger, context, runConfig);
+
+  // For both cache modes, the first (cold cache) load primes the cache for
+  // a second load that's measured separately.
+  let warmLoad: MeasuredPageLoad | null = null;
+  if (cacheMode === CacheMode.Both) {
+    await leavePage(logger, firstLoad.page);
+    // Keep any files written alongside the report for each load separate.
+    const warmConfig: RunConfig = { ...runConfig };
+    if (artifactsPrefix !== undefined) {
+      warmConfig.artifactsPrefix = `${artifactsPrefix}.warm`;
+    }
+    log.info("Measuring the page again, with a warm cache.");
+    warmLoad = await measureLoad(logger, context, warmConfig);
+  }
+
+  const archive =
+    archiveSession === null ? null : await archiveSession.finish();
 
   log.info("closing browser");
   await context.close();
   return {
+    archive: archive,
+    cacheMode: cacheMode,
+    config: runConfigValuesForConfig(runConfig),
+    consent: firstLoad.consent,
     end: new Date(),
-    measurements: results,
+    extensions: runConfig.extensions.map(({ id, name, version, path }) => {
+      return { id, name, version, path };
+    }),
+    measurements: firstLoad.results,
+    networkProfile: appliedNetworkProfile(runConfig),
+    scenarioSteps: firstLoad.scenarioSteps,
+    schemaVersion: reportSchemaVersion,
+    start: firstLoad.startTime,
+    trace: firstLoad.trace,
+    url: url,
+    version: await getVersion(),
+    warmConsent: warmLoad?.consent ?? null,
+    warmMeasurements: warmLoad?.results ?? null,
+    warmScenarioSteps: warmLoad?.scenarioSteps ?? null,
+    warmTrace: warmLoad?.trace ?? null,
+  };
+};
+
+// Launch the browser described by the run config and measure the run
+// config's URL in it, making sure the browser is closed afterwards, even
+// if the measurement fails. Unless the run config has a user-data dir,
+// each trial gets a new temporary one (so that trials don't share a cache,
+// cookies or storage), which is removed after the trial.
+const measureTrial = async (
+  logger: Logger,
+  runConfig: RunConfig,
+): Promise<Report> => {
+  const tempDir =
+    runConfig.userDataDir === undefined ? await makeTempDir() : undefined;
+  try {
+    const launchConfig =
+      tempDir === undefined
+        ? runConfig
+        : { ...runConfig, userDataDir: tempDir.path };
+    const browserContext = await launch(logger, launchConfig);
+    try {
+      return await measureURL(logger, browserContext, runConfig);
+    } finally {
+      await browserContext.close();
+    }
+  } finally {
+    await tempDir?.remove();
+  }
+};
+
+// Measure the URL for a run config, as many times as the run config's
+// "repeat" value. If the URL is only measured once, the result is just the
+// report for that measurement. Otherwise, the result contains the reports
+// for each trial, along with summary statistics across all trials.
+export const measureRunConfig = async (
+  logger: Logger,
+  runConfig: RunConfig,
+): Promise<Report | TrialsReport> => {
+  const { artifactsPrefix, repeat, url } = runConfig;
+  if (repeat === 1) {
+    return await measureTrial(logger, runConfig);
+  }
+
+  const log = logger.prefixedLogger("measureRunConfig(): ");
+  const startTime = new Date();
+  const trials: Report[] = [];
+  for (let trialIndex = 1; trialIndex <= repeat; trialIndex += 1) {
+    log.info(`Starting trial ${trialIndex.toString()}/${repeat.toString()}`);
+    // Keep any files written alongside the report for each trial separate.
+    const trialConfig: RunConfig = { ...runConfig };
+    if (artifactsPrefix !== undefined) {
+      trialConfig.artifactsPrefix = `${artifactsPrefix}.trial-${trialIndex.toString()}`;
+    }
+    trials.push(await measureTrial(logger, trialConfig));
+  }
+
+  return {
+    end: new Date(),
+    repeat: repeat,
+    schemaVersion: reportSchemaVersion,
     start: startTime,
+    summary: summarizeTrials(trials.map((x) => x.measurements)),
+    warmSummary:
+      runConfig.cacheMode === CacheMode.Both
+        ? summarizeTrials(trials.map((x) => x.warmMeasurements ?? {}))
+        : null,
+    trials: trials,
     url: url,
     version: await getVersion(),
   };
 };
+
+// Writes the given results to the output stream for a run. If the results
+// are being written to a file (i.e., not to STDOUT), the stream is also
+// closed, so that callers can write many reports in a single process.
+export const writeReport = async (
+  runConfig: RunConfig,
+  results: Serializable,
+): Promise<void> => {
+  const { output } = runConfig;
+  await new Promise<void>((resolve, reject) => {
+    output.write(JSON.stringify(results), "utf8", (err) => {
+      if (err) {
+        reject(err);
+        return;
+      }
+      resolve();
+    });
+  });
+
+  if (output !== process.stdout) {
+    await new Promise<void>((resolve) => {
+      output.end(resolve);
+    });
+  }
+};
+
+// Remove the (empty) results file that was created for a run config, if we
+// failed before writing any results to it.
+export const discardReport = async (
+  logger: Logger,
+  runConfig: RunConfig,
+): Promise<void> => {
+  const { output, outputPath } = runConfig;
+  if (outputPath === undefined) {
+    return;
+  }
+  output.destroy();
+  try {
+    await unlink(outputPath);
+  } catch (err: unknown) {
+    logger.error(`Unable to remove unused results file "${outputPath}": `, err);
+  }
+};
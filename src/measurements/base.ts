@@ -1,16 +1,16 @@
-import { BrowserContext } from "@playwright/test";
+import { BrowserContext, Page } from "@playwright/test";
 
 import { LogFunc, Logger } from "../logging.js";
-import { MeasurementType } from "../types.js";
+import { MeasurementType, RunConfig } from "../types.js";
 
-export interface MeasurementResult {
+export interface MeasurementResult<T = unknown> {
   type: MeasurementType;
-  data: unknown;
+  data: T;
 }
 
 export type BaseMeasurerChild = new (
   logger: Logger,
-  url: URL,
+  runConfig: RunConfig,
   context: BrowserContext,
 ) => BaseMeasurer;
 
@@ -18,6 +18,7 @@ export abstract class BaseMeasurer {
   abstract readonly type: MeasurementType;
 
   readonly logger: Logger;
+  readonly runConfig: RunConfig;
   readonly url: URL;
   readonly context: BrowserContext;
 
@@ -25,9 +26,14 @@ export abstract class BaseMeasurer {
   instrumentedAt?: Date;
   closedAt?: Date;
 
-  constructor(logger: Logger, url: URL, context: BrowserContext) {
+  // Listeners added with onPage(), which are removed when the measurement
+  // is closed.
+  readonly #pageListeners: ((page: Page) => void)[] = [];
+
+  constructor(logger: Logger, runConfig: RunConfig, context: BrowserContext) {
     this.logger = logger;
-    this.url = url;
+    this.runConfig = runConfig;
+    this.url = runConfig.url;
     this.context = context;
   }
 
@@ -86,6 +92,14 @@ export abstract class BaseMeasurer {
     this.instrumentedAt = new Date();
   }
 
+  // Calls the listener for each page opened in the context until the
+  // measurement is closed. Pages opened after that (e.g., for loading the
+  // page again with a warm cache) are left for other measurers.
+  onPage(listener: (page: Page) => void) {
+    this.context.on("page", listener);
+    this.#pageListeners.push(listener);
+  }
+
   close(): boolean {
     if (this.closedAt) {
       this.logError(
@@ -104,6 +118,9 @@ export abstract class BaseMeasurer {
     }
     this.closedAt = new Date();
     this.logVerbose("Ending measurement at ", this.closedAt.toISOString());
+    for (const aListener of this.#pageListeners) {
+      this.context.off("page", aListener);
+    }
     return true;
   }
 }
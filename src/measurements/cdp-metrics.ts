@@ -0,0 +1,175 @@
+import { setTimeout } from "node:timers/promises";
+
+import { CDPSession, Page } from "@playwright/test";
+
+import { BaseMeasurer, MeasurementResult } from "./base.js";
+import { MeasurementType } from "../types.js";
+
+// The values Chromium reports for a page through the Chrome DevTools
+// Protocol's "Performance.getMetrics" method. Each value is null if the
+// browser didn't report it.
+export interface CDPMetricValues {
+  // Bytes used by (and allocated for) the page's JavaScript heap.
+  jsHeapUsedSize: number | null;
+  jsHeapTotalSize: number | null;
+  // The total number of milliseconds the renderer has spent on each kind
+  // of work for the page, since the page was created.
+  scriptDuration: number | null;
+  layoutDuration: number | null;
+  recalcStyleDuration: number | null;
+  taskDuration: number | null;
+  // The number of DOM nodes, event listeners, and documents (including
+  // frames) alive in the page.
+  nodes: number | null;
+  jsEventListeners: number | null;
+  documents: number | null;
+}
+
+export interface CDPMetricsDatapoint {
+  // Milliseconds since the epoch.
+  time: number;
+  metrics: CDPMetricValues;
+}
+
+export interface CDPMetricsPageMeasurement {
+  url: string;
+  samples: CDPMetricsDatapoint[];
+  // The largest value of each metric over the run (for the durations,
+  // which only ever increase, this is their total at the end of the run).
+  // Null if no samples were recorded for the page.
+  peak: CDPMetricValues | null;
+}
+
+// The data recorded by CDPMetricsMeasurer.
+export type CDPMetricsMeasurement = CDPMetricsPageMeasurement[];
+
+// Maps the names of the metrics we record to the names Chromium uses for
+// them, and the factor to multiply Chromium's value by (durations are
+// reported in seconds).
+const cdpMetricNames: Record<keyof CDPMetricValues, [string, number]> = {
+  jsHeapUsedSize: ["JSHeapUsedSize", 1],
+  jsHeapTotalSize: ["JSHeapTotalSize", 1],
+  scriptDuration: ["ScriptDuration", 1000],
+  layoutDuration: ["LayoutDuration", 1000],
+  recalcStyleDuration: ["RecalcStyleDuration", 1000],
+  taskDuration: ["TaskDuration", 1000],
+  nodes: ["Nodes", 1],
+  jsEventListeners: ["JSEventListeners", 1],
+  documents: ["Documents", 1],
+};
+
+const metricValuesFor = (
+  cdpMetrics: { name: string; value: number }[],
+): CDPMetricValues => {
+  const valuesByName = new Map(cdpMetrics.map((x) => [x.name, x.value]));
+  const values = {} as CDPMetricValues;
+  for (const [aKey, [aCDPName, aFactor]] of Object.entries(cdpMetricNames)) {
+    const value = valuesByName.get(aCDPName);
+    values[aKey as keyof CDPMetricValues] =
+      value === undefined ? null : value * aFactor;
+  }
+  return values;
+};
+
+const peakForSamples = (
+  samples: CDPMetricsDatapoint[],
+): CDPMetricValues | null => {
+  if (samples.length === 0) {
+    return null;
+  }
+  const peak = { ...samples[0].metrics };
+  for (const aSample of samples.slice(1)) {
+    for (const aKeyRaw of Object.keys(peak)) {
+      const aKey = aKeyRaw as keyof CDPMetricValues;
+      const value = aSample.metrics[aKey];
+      const peakValue = peak[aKey];
+      if (value !== null && (peakValue === null || value > peakValue)) {
+        peak[aKey] = value;
+      }
+    }
+  }
+  return peak;
+};
+
+interface PageSampler {
+  page: Page;
+  samples: CDPMetricsDatapoint[];
+  // Resolves once the page stops being sampled.
+  done: Promise<void>;
+}
+
+export class CDPMetricsMeasurer extends BaseMeasurer {
+  // How often to sample the metrics for each page.
+  static intervalMs = 1000;
+
+  readonly type = MeasurementType.CDPMetrics;
+  readonly #samplers: PageSampler[] = [];
+
+  instrumentContext() {
+    super.instrumentContext();
+    this.onPage((page) => {
+      const samples: CDPMetricsDatapoint[] = [];
+      this.#samplers.push({
+        page: page,
+        samples: samples,
+        done: this.#samplePage(page, samples),
+      });
+    });
+  }
+
+  // Samples the page's metrics until the measurement is closed (or the
+  // page is), waiting for each sample to be returned before starting the
+  // next interval, so that samples never overlap.
+  async #samplePage(page: Page, samples: CDPMetricsDatapoint[]) {
+    let session: CDPSession;
+    try {
+      session = await this.context.newCDPSession(page);
+      await session.send("Performance.enable");
+    } catch (err: unknown) {
+      this.logError("Unable to open CDP session for page: ", err);
+      return;
+    }
+
+    while (this.closedAt === undefined && !page.isClosed()) {
+      try {
+        const { metrics } = await session.send("Performance.getMetrics");
+        samples.push({ time: Date.now(), metrics: metricValuesFor(metrics) });
+      } catch (err: unknown) {
+        this.logError("Unable to sample CDP metrics for page: ", err);
+        break;
+      }
+      await setTimeout(CDPMetricsMeasurer.intervalMs, undefined, {
+        ref: false,
+      });
+    }
+
+    try {
+      await session.detach();
+    } catch {
+      // The session is already closed if the page is.
+    }
+  }
+
+  async collect(): Promise<MeasurementResult<CDPMetricsMeasurement> | null> {
+    await Promise.all(this.#samplers.map((x) => x.done));
+
+    const cdpMeasurements: CDPMetricsMeasurement = [];
+    for (const aSampler of this.#samplers) {
+      const pageURL = aSampler.page.url();
+      if (!pageURL.startsWith("http")) {
+        this.logVerbose("Not recording metrics for non-public URL: ", pageURL);
+        continue;
+      }
+      cdpMeasurements.push({
+        url: pageURL,
+        samples: aSampler.samples,
+        peak: peakForSamples(aSampler.samples),
+      });
+    }
+
+    return {
+      type: this.type,
+      data: cdpMeasurements,
+    };
+  }
+}
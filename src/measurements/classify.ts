@@ -0,0 +1,173 @@
+import { readFile } from "node:fs/promises";
+
+import { getDomain } from "tldts";
+
+import {
+  NetworkClassificationTotals,
+  NetworkDatapoint,
+  PageNetworkMeasurement,
+} from "./network.js";
+import { addToGroupTotals } from "./network-summary.js";
+import { Path } from "../types.js";
+
+export enum Party {
+  First = "first-party",
+  Third = "third-party",
+}
+
+// Maps the name of each tracker (or ad, etc.) category to the domains
+// in that category. A URL is in a category if its hostname is one of
+// the category's domains, or a subdomain of one of them.
+export type TrackerCategories = Record<string, string[]>;
+
+export interface TrackerList {
+  path: Path;
+  categories: TrackerCategories;
+}
+
+export interface TrafficClassification {
+  party: Party | null;
+  category: string | null;
+}
+
+// Reads a --tracker-list file, which is a JSON object mapping category
+// names to arrays of domains, e.g.,
+// {"advertising": ["doubleclick.net"], "analytics": ["google-analytics.com"]}
+export const loadTrackerList = async (path: Path): Promise<TrackerList> => {
+  let listData: unknown;
+  try {
+    listData = JSON.parse(await readFile(path, "utf8"));
+  } catch (err: unknown) {
+    throw new Error(
+      `Unable to read --tracker-list file "${path}": ` +
+        (err as Error).toString(),
+    );
+  }
+
+  if (
+    typeof listData !== "object" ||
+    listData === null ||
+    Array.isArray(listData)
+  ) {
+    throw new Error(
+      `Invalid --tracker-list file "${path}". Must be a JSON object mapping ` +
+        "category names to arrays of domains.",
+    );
+  }
+  for (const [aCategory, someDomains] of Object.entries(listData)) {
+    if (
+      !Array.isArray(someDomains) ||
+      !someDomains.every((x) => typeof x === "string")
+    ) {
+      throw new Error(
+        `Invalid category "${aCategory}" in --tracker-list file "${path}". ` +
+          "Must be an array of domains.",
+      );
+    }
+  }
+  return {
+    path: path,
+    categories: listData as TrackerCategories,
+  };
+};
+
+// Returns the eTLD+1 (i.e., the "site") for a hostname, using the public
+// suffix list bundled with tldts (so that no network access is needed).
+// Hostnames that don't have an eTLD+1 (e.g., IP addresses, "localhost")
+// are returned as is.
+const siteForHostname = (hostname: string): string => {
+  return getDomain(hostname, { allowPrivateDomains: true }) ?? hostname;
+};
+
+const hostnameForURL = (url: string): string | null => {
+  try {
+    const hostname = new URL(url).hostname;
+    return hostname.length > 0 ? hostname : null;
+  } catch {
+    return null;
+  }
+};
+
+export type TrafficClassifier = (url: string) => TrafficClassification;
+
+// Returns a function that labels URLs as first- or third-party, relative to
+// the site of the given URL (i.e., the URL being measured), and with
+// the tracker category the URL matches in the given categories (if any).
+export const makeTrafficClassifier = (
+  siteURL: URL,
+  categories: TrackerCategories = {},
+): TrafficClassifier => {
+  const site = siteForHostname(siteURL.hostname);
+
+  // Map each domain to its category, so that we can check a hostname
+  // (and each of its parent domains) in one lookup each.
+  const domainToCategoryMap = new Map<string, string>();
+  for (const [aCategory, someDomains] of Object.entries(categories)) {
+    for (const aDomain of someDomains) {
+      domainToCategoryMap.set(aDomain.toLowerCase(), aCategory);
+    }
+  }
+
+  const categoryForHostname = (hostname: string): string | null => {
+    const labels = hostname.split(".");
+    for (let index = 0; index < labels.length; index += 1) {
+      const category = domainToCategoryMap.get(labels.slice(index).join("."));
+      if (category !== undefined) {
+        return category;
+      }
+    }
+    return null;
+  };
+
+  return (url: string): TrafficClassification => {
+    // URLs without a hostname (e.g., data: or blob: URLs) can't be
+    // classified.
+    const hostname = hostnameForURL(url);
+    if (hostname === null) {
+      return { party: null, category: null };
+    }
+    const isFirstParty = siteForHostname(hostname) === site;
+    return {
+      party: isFirstParty ? Party.First : Party.Third,
+      category: categoryForHostname(hostname),
+    };
+  };
+};
+
+const unknownPartyKey = "unknown";
+
+// Sums the number and size of the requests and responses in the given
+// pages, grouped by party and by tracker category.
+export const classificationTotals = (
+  pages: Pick<PageNetworkMeasurement, "requests" | "responses">[],
+  trackerListPath: Path | null,
+): NetworkClassificationTotals => {
+  const totals: NetworkClassificationTotals = {
+    trackerList: trackerListPath,
+    byParty: {},
+    byCategory: {},
+  };
+
+  const addDatapoint = (datapoint: NetworkDatapoint, isRequest: boolean) => {
+    const partyKey = datapoint.party ?? unknownPartyKey;
+    addToGroupTotals(totals.byParty, partyKey, datapoint, isRequest);
+    if (datapoint.category !== null) {
+      addToGroupTotals(
+        totals.byCategory,
+        datapoint.category,
+        datapoint,
+        isRequest,
+      );
+    }
+  };
+
+  for (const aPage of pages) {
+    for (const aRequest of aPage.requests) {
+      addDatapoint(aRequest, true);
+    }
+    for (const aResponse of aPage.responses) {
+      addDatapoint(aResponse, false);
+    }
+  }
+  return totals;
+};
@@ -0,0 +1,233 @@
+import { Request, Response } from "@playwright/test";
+
+import { VersionNumber } from "../types.js";
+
+// Types for the parts of the HAR 1.2 format we generate. See
+// http://www.softwareishard.com/blog/har-12-spec/ for the full format.
+// Fields starting with an underscore are custom fields, which the spec
+// allows for data not covered by the format.
+interface HARNameValue {
+  name: string;
+  value: string;
+}
+
+interface HARRequest {
+  method: string;
+  url: string;
+  httpVersion: string;
+  cookies: HARNameValue[];
+  headers: HARNameValue[];
+  queryString: HARNameValue[];
+  postData?: {
+    mimeType: string;
+    text: string;
+  };
+  headersSize: number;
+  bodySize: number;
+}
+
+interface HARResponse {
+  status: number;
+  statusText: string;
+  httpVersion: string;
+  cookies: HARNameValue[];
+  headers: HARNameValue[];
+  content: {
+    size: number;
+    mimeType: string;
+  };
+  redirectURL: string;
+  headersSize: number;
+  bodySize: number;
+}
+
+// All timings are in milliseconds, or -1 if the timing isn't available.
+interface HARTimings {
+  blocked: number;
+  dns: number;
+  connect: number;
+  ssl: number;
+  send: number;
+  wait: number;
+  receive: number;
+}
+
+export interface HAREntry {
+  pageref: string;
+  startedDateTime: string;
+  time: number;
+  request: HARRequest;
+  response: HARResponse;
+  cache: Record<string, never>;
+  timings: HARTimings;
+  serverIPAddress?: string;
+  _resourceType: string;
+  _securityContext: string | null;
+}
+
+export interface HARPage {
+  id: string;
+  startedDateTime: string;
+  title: string;
+  pageTimings: Record<string, never>;
+}
+
+export interface HARLog {
+  log: {
+    version: "1.2";
+    creator: {
+      name: string;
+      version: VersionNumber;
+    };
+    pages: HARPage[];
+    entries: HAREntry[];
+  };
+}
+
+const creatorName = "privacy-perf-comparisons";
+
+// Playwright reports the timing for each phase as an offset from the
+// start of the request, with -1 for phases that didn't happen (e.g., DNS
+// lookups for connections that were reused). Returns -1 if either end of
+// the phase is missing.
+const phaseDuration = (start: number, end: number): number => {
+  if (start < 0 || end < 0) {
+    return -1;
+  }
+  return end - start;
+};
+
+const timingsForRequest = (request: Request): HARTimings => {
+  const timing = request.timing();
+  return {
+    blocked: -1,
+    dns: phaseDuration(timing.domainLookupStart, timing.domainLookupEnd),
+    connect: phaseDuration(timing.connectStart, timing.connectEnd),
+    ssl: phaseDuration(timing.secureConnectionStart, timing.connectEnd),
+    // Playwright doesn't distinguish between sending the request and
+    // waiting for the response, so all of that time is counted as "wait".
+    // The spec doesn't allow -1 for the send, wait and receive phases.
+    send: 0,
+    wait: Math.max(phaseDuration(timing.requestStart, timing.responseStart), 0),
+    receive: Math.max(
+      phaseDuration(timing.responseStart, timing.responseEnd),
+      0,
+    ),
+  };
+};
+
+const queryStringForURL = (url: string): HARNameValue[] => {
+  try {
+    return Array.from(new URL(url).searchParams, ([name, value]) => {
+      return { name, value };
+    });
+  } catch {
+    return [];
+  }
+};
+
+// The HAR format requires the size values, but they can't always be
+// determined (e.g., if the request was served from a cache), in which
+// case we use -1, as the spec allows.
+const sizesForRequest = async (request: Request) => {
+  try {
+    return await request.sizes();
+  } catch {
+    return {
+      requestBodySize: -1,
+      requestHeadersSize: -1,
+      responseBodySize: -1,
+      responseHeadersSize: -1,
+    };
+  }
+};
+
+// Builds the HAR entry for a request and its response. This waits until
+// the response body has been received, so that the entry includes
+// the complete timing and size information.
+export const harEntryForResponse = async (
+  response: Response,
+  securityContext: string | null,
+  pageRef: string,
+): Promise<HAREntry> => {
+  await response.finished();
+  const request = response.request();
+  const sizes = await sizesForRequest(request);
+  const timings = timingsForRequest(request);
+  const requestHeaders = await request.headersArray();
+  const responseHeaders = await response.headersArray();
+
+  const postData = request.postData();
+  const contentType = await request.headerValue("content-type");
+  const responseContentType = await response.headerValue("content-type");
+  const serverAddr = await response.serverAddr();
+
+  const { blocked, dns, connect, send, wait, receive } = timings;
+  // The "ssl" time is already included in the "connect" time.
+  const time = [blocked, dns, connect, send, wait, receive]
+    .filter((x) => x > 0)
+    .reduce((total, x) => total + x, 0);
+
+  const entry: HAREntry = {
+    pageref: pageRef,
+    startedDateTime: new Date(request.timing().startTime).toISOString(),
+    time: time,
+    request: {
+      method: request.method(),
+      url: request.url(),
+      // Playwright doesn't expose the HTTP version used for the request.
+      httpVersion: "unknown",
+      cookies: [],
+      headers: requestHeaders,
+      queryString: queryStringForURL(request.url()),
+      headersSize: sizes.requestHeadersSize,
+      bodySize: sizes.requestBodySize,
+    },
+    response: {
+      status: response.status(),
+      statusText: response.statusText(),
+      httpVersion: "unknown",
+      cookies: [],
+      headers: responseHeaders,
+      content: {
+        size: sizes.responseBodySize,
+        mimeType: responseContentType ?? "",
+      },
+      redirectURL: (await response.headerValue("location")) ?? "",
+      headersSize: sizes.responseHeadersSize,
+      bodySize: sizes.responseBodySize,
+    },
+    cache: {},
+    timings: timings,
+    _resourceType: request.resourceType(),
+    _securityContext: securityContext,
+  };
+  if (postData !== null) {
+    entry.request.postData = {
+      mimeType: contentType ?? "",
+      text: postData,
+    };
+  }
+  if (serverAddr !== null) {
+    entry.serverIPAddress = serverAddr.ipAddress;
+  }
+  return entry;
+};
+
+export const makeHARLog = (
+  version: VersionNumber,
+  pages: HARPage[],
+  entries: HAREntry[],
+): HARLog => {
+  return {
+    log: {
+      version: "1.2",
+      creator: {
+        name: creatorName,
+        version: version,
+      },
+      pages: pages,
+      entries: entries,
+    },
+  };
+};
@@ -0,0 +1,158 @@
+import { Party, TrafficClassifier } from "./classify.js";
+
+// The parts of "longtask" and "long-animation-frame" performance entries
+// recorded in each page. All times are in milliseconds.
+export interface LongTaskEntry {
+  startTime: number;
+  duration: number;
+}
+
+export interface LongAnimationFrameEntry {
+  startTime: number;
+  duration: number;
+  blockingDuration: number;
+  // The scripts that ran during the frame (for at least 5ms).
+  scripts: {
+    sourceURL: string;
+    duration: number;
+  }[];
+}
+
+// The number of entries with a duration of at least "min" milliseconds,
+// and less than "max" milliseconds (or with no upper limit, if max is null).
+export interface DurationHistogramBucket {
+  min: number;
+  max: number | null;
+  count: number;
+}
+
+export interface BlockingSummary {
+  count: number;
+  totalDuration: number;
+  // For long tasks, the sum of the time each task ran past 50ms (i.e.,
+  // Total Blocking Time, though measured over the whole measurement, instead
+  // of only up to the time to interactive). For long animation frames, the
+  // sum of the "blockingDuration" of each frame.
+  totalBlockingTime: number;
+  histogram: DurationHistogramBucket[];
+}
+
+// The total time scripts from a single URL ran during long animation frames.
+export interface ScriptAttribution {
+  // Empty for scripts the browser couldn't attribute to a URL (e.g., inline
+  // event handlers).
+  sourceURL: string;
+  party: Party | null;
+  category: string | null;
+  count: number;
+  duration: number;
+}
+
+// Main thread work on the page over the whole measurement.
+export interface MainThreadMeasurement {
+  // Null if the browser doesn't support "longtask" entries.
+  longTasks: BlockingSummary | null;
+  // Null if the browser doesn't support "long-animation-frame" entries.
+  longAnimationFrames: BlockingSummary | null;
+  // Sorted by duration, longest first. Only browsers that support
+  // "long-animation-frame" entries attribute work to scripts.
+  scripts: ScriptAttribution[];
+  // The entry types the browser doesn't support (and so which
+  // are null above).
+  unsupported: string[];
+}
+
+const longTaskThresholdMs = 50;
+const histogramBoundaries = [50, 100, 250, 500, 1000];
+
+const histogramForDurations = (
+  durations: number[],
+): DurationHistogramBucket[] => {
+  return histogramBoundaries.map((min, index) => {
+    const max =
+      index + 1 < histogramBoundaries.length
+        ? histogramBoundaries[index + 1]
+        : null;
+    const count = durations.filter((x) => {
+      return x >= min && (max === null || x < max);
+    }).length;
+    return { min, max, count };
+  });
+};
+
+const summarizeBlocking = (
+  durations: number[],
+  blockingDurations: number[],
+): BlockingSummary => {
+  return {
+    count: durations.length,
+    totalDuration: durations.reduce((total, x) => total + x, 0),
+    totalBlockingTime: blockingDurations.reduce((total, x) => total + x, 0),
+    histogram: histogramForDurations(durations),
+  };
+};
+
+const attributeScripts = (
+  frames: LongAnimationFrameEntry[],
+  classifier: TrafficClassifier,
+): ScriptAttribution[] => {
+  const scriptsByURL = new Map<string, ScriptAttribution>();
+  for (const aFrame of frames) {
+    for (const aScript of aFrame.scripts) {
+      let attribution = scriptsByURL.get(aScript.sourceURL);
+      if (attribution === undefined) {
+        attribution = {
+          sourceURL: aScript.sourceURL,
+          ...classifier(aScript.sourceURL),
+          count: 0,
+          duration: 0,
+        };
+        scriptsByURL.set(aScript.sourceURL, attribution);
+      }
+      attribution.count += 1;
+      attribution.duration += aScript.duration;
+    }
+  }
+  return Array.from(scriptsByURL.values()).sort((a, b) => {
+    return b.duration - a.duration;
+  });
+};
+
+export const summarizeMainThread = (
+  longTasks: LongTaskEntry[],
+  longAnimationFrames: LongAnimationFrameEntry[],
+  supportedEntryTypes: string[],
+  classifier: TrafficClassifier,
+): MainThreadMeasurement => {
+  const isLongTaskSupported = supportedEntryTypes.includes("longtask");
+  const isLoAFSupported = supportedEntryTypes.includes("long-animation-frame");
+
+  const unsupported: string[] = [];
+  let longTasksSummary: BlockingSummary | null = null;
+  if (isLongTaskSupported) {
+    const durations = longTasks.map((x) => x.duration);
+    const blockingDurations = durations.map((x) => {
+      return Math.max(x - longTaskThresholdMs, 0);
+    });
+    longTasksSummary = summarizeBlocking(durations, blockingDurations);
+  } else {
+    unsupported.push("longtask");
+  }
+
+  let loafSummary: BlockingSummary | null = null;
+  if (isLoAFSupported) {
+    loafSummary = summarizeBlocking(
+      longAnimationFrames.map((x) => x.duration),
+      longAnimationFrames.map((x) => x.blockingDuration),
+    );
+  } else {
+    unsupported.push("long-animation-frame");
+  }
+
+  return {
+    longTasks: longTasksSummary,
+    longAnimationFrames: loafSummary,
+    scripts: attributeScripts(longAnimationFrames, classifier),
+    unsupported: unsupported,
+  };
+};
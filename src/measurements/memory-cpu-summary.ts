@@ -0,0 +1,92 @@
+import {
+  MemoryCPUDatapoint,
+  MemoryCPUSummary,
+  UsageStats,
+} from "./memory-cpu.js";
+
+// Datapoint times are Dates when summarized by the measurer, but strings
+// when summarized while upgrading a report read from JSON.
+const timeOf = (datapoint: MemoryCPUDatapoint): number => {
+  return new Date(datapoint.time).getTime();
+};
+
+const statsForValues = (
+  values: number[],
+  times: number[],
+  startTime: number | null,
+): UsageStats => {
+  let peakIndex = 0;
+  for (let index = 1; index < values.length; index += 1) {
+    if (values[index] > values[peakIndex]) {
+      peakIndex = index;
+    }
+  }
+  const mean = values.reduce((total, x) => total + x, 0) / values.length;
+
+  // Integrate the values over time with the trapezoidal rule.
+  const duration = times[times.length - 1] - times[0];
+  let timeWeightedMean = mean;
+  if (duration > 0) {
+    let area = 0;
+    for (let index = 1; index < values.length; index += 1) {
+      const elapsed = times[index] - times[index - 1];
+      area += ((values[index] + values[index - 1]) / 2) * elapsed;
+    }
+    timeWeightedMean = area / duration;
+  }
+
+  return {
+    peak: values[peakIndex],
+    mean: mean,
+    timeWeightedMean: timeWeightedMean,
+    timeToPeak: startTime === null ? null : times[peakIndex] - startTime,
+  };
+};
+
+// Summarizes the memory and CPU totals of the "during" datapoints (i.e.,
+// those taken while the page was loading).
+export const summarizeMemoryCPU = (
+  datapoints: MemoryCPUDatapoint[],
+  sampling: Pick<MemoryCPUSummary, "intervalMs" | "skippedSamples">,
+): MemoryCPUSummary => {
+  const sortedDatapoints = datapoints.toSorted((a, b) => timeOf(a) - timeOf(b));
+  const duringDatapoints = sortedDatapoints.filter((x) => x.type === "during");
+  const summary: MemoryCPUSummary = {
+    ...sampling,
+    samples: duringDatapoints.length,
+    memory: null,
+    cpu: null,
+    cpuSeconds: null,
+  };
+  if (duringDatapoints.length === 0) {
+    return summary;
+  }
+
+  const beforeDatapoint = sortedDatapoints.find((x) => x.type === "before");
+  const startTime = beforeDatapoint ? timeOf(beforeDatapoint) : null;
+  const times = duringDatapoints.map(timeOf);
+  summary.memory = statsForValues(
+    duringDatapoints.map((x) => x.totals.memory),
+    times,
+    startTime,
+  );
+  summary.cpu = statsForValues(
+    duringDatapoints.map((x) => x.totals.cpu),
+    times,
+    startTime,
+  );
+
+  // Each datapoint's CPU% is the CPU used since the previous datapoint
+  // (of any type), as a percentage of a single core.
+  let cpuSeconds = 0;
+  for (let index = 1; index < sortedDatapoints.length; index += 1) {
+    const datapoint = sortedDatapoints[index];
+    if (datapoint.type !== "during") {
+      continue;
+    }
+    const elapsedMs = timeOf(datapoint) - timeOf(sortedDatapoints[index - 1]);
+    cpuSeconds += (datapoint.totals.cpu / 100) * (elapsedMs / 1000);
+  }
+  summary.cpuSeconds = cpuSeconds;
+  return summary;
+};
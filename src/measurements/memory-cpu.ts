@@ -1,144 +1,381 @@
+import { execFile } from "node:child_process";
+import { realpath } from "node:fs/promises";
+import { promisify } from "node:util";
+
 import pidusage from "pidusage";
-import psTree, { PS } from "ps-tree";
 
 import { BaseMeasurer, MeasurementResult } from "./base.js";
-import { MeasurementType } from "../types.js";
+import { summarizeMemoryCPU } from "./memory-cpu-summary.js";
+import { makeProcUsageReader } from "./proc-usage.js";
+import { MeasurementType, MemoryBackend, Path, RunConfig } from "../types.js";
 import { Logger } from "../logging.js";
 import { BrowserContext } from "@playwright/test";
 
-type PID = number;
-type DatapointType = "before" | "during" | "end";
+export type PID = number;
+export type DatapointType = "before" | "during" | "end";
+
+// What each browser process is used for, as determined from its
+// command line.
+export enum ProcessRole {
+  // The main (or "parent", or "UI") browser process.
+  Browser = "browser",
+  // Chromium renderer processes.
+  Renderer = "renderer",
+  // Gecko content processes (i.e., "-contentproc ... tab").
+  Content = "content",
+  // WebKit web content processes (i.e., "WebKitWebProcess").
+  WebContent = "web-content",
+  GPU = "gpu",
+  // Network and other utility services (e.g., Chromium's utility
+  // processes, Gecko's socket and RDD processes, and WebKit's network
+  // process).
+  Utility = "utility",
+  // Browser processes that don't fit one of the above (e.g., Chromium's
+  // zygote and crash handler processes).
+  Other = "other",
+}
 
 export interface ProcessDatapoint {
   // The process id for the process, as it appears in the PID column of 'ps'.
   pid: PID;
-  // The memory used by this process, as it appears in the RSS column of 'ps'.
+  // Null for reports before schema version 10, which didn't label
+  // processes.
+  role: ProcessRole | null;
+  // The memory used by this process: its RSS (as it appears in the RSS
+  // column of 'ps') with the pidusage backend, or its PSS with the proc
+  // backend.
   mem: number;
   // The CPU% used by this process, as it appears in the CPU% column of 'ps'.
   cpu: number;
+  // Null with the pidusage backend (and for reports before schema
+  // version 11).
+  memoryDetail: ProcessMemoryDetail | null;
 }
 
-export interface Datapoint {
+// The memory used by a process, read from /proc/<pid>/smaps_rollup by the
+// proc backend, in bytes.
+export interface ProcessMemoryDetail {
+  // Resident set size, which counts all the shared memory (e.g., shared
+  // libraries) the process maps, even though other processes map it too.
+  rss: number;
+  // Proportional set size, which counts each page of shared memory divided
+  // by the number of processes sharing it.
+  pss: number;
+  // Unique set size, i.e., the memory only this process uses.
+  uss: number;
+  swap: number;
+}
+
+export interface ProcessTotals {
+  memory: number;
+  cpu: number;
+  // Null unless the memory detail was read for every process.
+  memoryDetail: ProcessMemoryDetail | null;
+}
+
+export interface MemoryCPUDatapoint {
   // Total memory use represented in this datapoint (i.e., summing the "amount"
-  // values from each ProcessDatapoint).
-  totals: {
-    memory: number;
-    cpu: number;
-  };
+  // values from each ProcessDatapoint). Only the browser's processes are
+  // included (though for reports before schema version 10, this also
+  // includes the processes of the measuring tool itself).
+  totals: ProcessTotals;
+  // The same totals, for the processes with each role (keyed by
+  // ProcessRole), or null for reports before schema version 10.
+  byRole: Record<string, ProcessTotals> | null;
   processes: ProcessDatapoint[];
+  // How the memory and CPU use of each process was read.
+  backend: MemoryBackend;
   type: DatapointType;
   time: Date;
 }
 
-const processUsage = async (pid: PID): Promise<ProcessDatapoint> => {
+// Statistics for the memory or CPU totals of the datapoints taken while
+// the page was loading (i.e., the "during" datapoints).
+export interface UsageStats {
+  peak: number;
+  mean: number;
+  // The mean of the totals over time, weighting each datapoint by the time
+  // between it and its neighbors, so that irregularly spaced (or skipped)
+  // datapoints don't skew the result.
+  timeWeightedMean: number;
+  // Milliseconds from the "before" datapoint (taken just before the page
+  // started loading) to the datapoint with the peak total.
+  timeToPeak: number | null;
+}
+
+export interface MemoryCPUSummary {
+  // Null for reports before schema version 12, which always sampled
+  // every 5000ms.
+  intervalMs: number | null;
+  // The number of "during" datapoints, and the number of samples that were
+  // skipped because the previous sample hadn't finished yet (null for
+  // reports before schema version 12).
+  samples: number;
+  skippedSamples: number | null;
+  // Null if there weren't any "during" datapoints.
+  memory: UsageStats | null;
+  cpu: UsageStats | null;
+  // The CPU time the browser's processes used while the page was loading,
+  // in seconds (i.e., the CPU% of each "during" datapoint over the time
+  // since the previous datapoint).
+  cpuSeconds: number | null;
+}
+
+// The data recorded by MemoryCPUMeasurer.
+export interface MemoryCPUMeasurement {
+  datapoints: MemoryCPUDatapoint[];
+  summary: MemoryCPUSummary;
+}
+
+// The parts of a ProcessDatapoint a memory backend reads for a process.
+export type ProcessUsage = Pick<
+  ProcessDatapoint,
+  "mem" | "cpu" | "memoryDetail"
+>;
+export type ProcessUsageReader = (pid: PID) => Promise<ProcessUsage>;
+
+interface ProcessInfo {
+  pid: PID;
+  ppid: PID;
+  // The process's full command line.
+  args: string;
+}
+
+const execFileAsync = promisify(execFile);
+
+// Lists every running process, along with its parent and command line.
+const listProcesses = async (): Promise<ProcessInfo[]> => {
+  const psCall = execFileAsync("ps", ["-A", "-o", "pid=,ppid=,args="], {
+    maxBuffer: 16 * 1024 * 1024,
+  });
+  const psPid = psCall.child.pid;
+  const { stdout } = await psCall;
+
+  const processes: ProcessInfo[] = [];
+  for (const aLine of stdout.split("\n")) {
+    const match = /^\s*(\d+)\s+(\d+)\s+(.*)$/.exec(aLine);
+    if (match === null) {
+      continue;
+    }
+    const pid = parseInt(match[1], 10);
+    // Skip the ps process itself.
+    if (pid === psPid) {
+      continue;
+    }
+    processes.push({ pid: pid, ppid: parseInt(match[2], 10), args: match[3] });
+  }
+  return processes;
+};
+
+// Returns the processes that make up the browser, which are the processes
+// (started by the process with the given pid, i.e., this process) whose
+// command line includes one of the given paths to the browser binary, and
+// all of their descendants. If no process matches (e.g., if the binary is
+// a wrapper script that exec's the real browser), all of the descendants
+// of the given pid are returned instead.
+const browserProcesses = (
+  logger: Logger,
+  processes: ProcessInfo[],
+  harnessPid: PID,
+  binaryPaths: Path[],
+): ProcessInfo[] => {
+  const childrenByPid = new Map<PID, ProcessInfo[]>();
+  for (const aProcess of processes) {
+    const siblings = childrenByPid.get(aProcess.ppid) ?? [];
+    siblings.push(aProcess);
+    childrenByPid.set(aProcess.ppid, siblings);
+  }
+
+  const descendantsOf = (pid: PID): ProcessInfo[] => {
+    const descendants: ProcessInfo[] = [];
+    const toVisit = [...(childrenByPid.get(pid) ?? [])];
+    for (let aProcess = toVisit.pop(); aProcess; aProcess = toVisit.pop()) {
+      descendants.push(aProcess);
+      toVisit.push(...(childrenByPid.get(aProcess.pid) ?? []));
+    }
+    return descendants;
+  };
+
+  const harnessDescendants = descendantsOf(harnessPid);
+  const browserRoots = harnessDescendants.filter((x) => {
+    return binaryPaths.some((aPath) => x.args.includes(aPath));
+  });
+  if (browserRoots.length === 0) {
+    logger.verbose(
+      "No process found for browser binary, using all child processes",
+    );
+    return harnessDescendants;
+  }
+
+  const browserPids = new Set<PID>();
+  for (const aRoot of browserRoots) {
+    browserPids.add(aRoot.pid);
+    for (const aDescendant of descendantsOf(aRoot.pid)) {
+      browserPids.add(aDescendant.pid);
+    }
+  }
+  return harnessDescendants.filter((x) => browserPids.has(x.pid));
+};
+
+const chromiumTypeToRoleMap: Record<string, ProcessRole> = {
+  renderer: ProcessRole.Renderer,
+  "gpu-process": ProcessRole.GPU,
+  utility: ProcessRole.Utility,
+};
+
+const geckoTypeToRoleMap: Record<string, ProcessRole> = {
+  tab: ProcessRole.Content,
+  gpu: ProcessRole.GPU,
+  rdd: ProcessRole.Utility,
+  socket: ProcessRole.Utility,
+  utility: ProcessRole.Utility,
+};
+
+const webKitNameToRoleMap: Record<string, ProcessRole> = {
+  WebKitWebProcess: ProcessRole.WebContent,
+  WebKitNetworkProcess: ProcessRole.Utility,
+  WebKitGPUProcess: ProcessRole.GPU,
+};
+
+const roleForCommandLine = (args: string): ProcessRole => {
+  // Chromium child processes are started with "--type=<type>".
+  const chromiumType = /(?:^|\s)--type=([\w-]+)/.exec(args)?.[1];
+  if (chromiumType !== undefined) {
+    return chromiumTypeToRoleMap[chromiumType] ?? ProcessRole.Other;
+  }
+
+  // Gecko child processes are started with "-contentproc", and have the
+  // type of process as their last argument.
+  const argList = args.trim().split(/\s+/);
+  if (argList.includes("-contentproc")) {
+    return geckoTypeToRoleMap[argList[argList.length - 1]] ?? ProcessRole.Other;
+  }
+
+  // WebKit child processes are separate binaries.
+  for (const [aName, aRole] of Object.entries(webKitNameToRoleMap)) {
+    if (args.includes(aName)) {
+      return aRole;
+    }
+  }
+  return ProcessRole.Browser;
+};
+
+const pidusageUsage: ProcessUsageReader = async (pid) => {
   return new Promise((resolve, reject) => {
     pidusage(pid, (error: Error | null, stats) => {
       if (error) {
         reject(error);
         return;
       }
-      const procDatapoint: ProcessDatapoint = {
-        pid: pid,
-        mem: stats.memory,
-        cpu: stats.cpu,
-      };
-      resolve(procDatapoint);
+      resolve({ mem: stats.memory, cpu: stats.cpu, memoryDetail: null });
     });
   });
 };
 
-const processTreeUsage = async (
+const backendToReaderMap: Record<MemoryBackend, () => ProcessUsageReader> = {
+  [MemoryBackend.PIDUsage]: () => pidusageUsage,
+  [MemoryBackend.Proc]: makeProcUsageReader,
+};
+
+// Everything needed to find the browser's processes, and read their memory
+// and CPU use.
+interface DatapointSource {
+  harnessPid: PID;
+  binaryPaths: Path[];
+  backend: MemoryBackend;
+  readUsage: ProcessUsageReader;
+}
+
+const browserProcessUsage = async (
   logger: Logger,
-  pid: PID,
+  source: DatapointSource,
 ): Promise<ProcessDatapoint[]> => {
-  const log = logger.prefixedLogger("processTreeUsage(): ");
-  return new Promise((resolve, reject) => {
-    log.debug("Fetching psTree for pid: ", pid);
-    psTree(pid, (error: Error | null, children: readonly PS[]) => {
-      if (error) {
-        log.debug("no child processes for pid: ", pid);
-        reject(error);
-        return;
-      }
+  const { binaryPaths, harnessPid, readUsage } = source;
+  const log = logger.prefixedLogger("browserProcessUsage(): ");
+  log.debug("Fetching browser processes for pid: ", harnessPid);
+  const processes = browserProcesses(
+    log,
+    await listProcesses(),
+    harnessPid,
+    binaryPaths,
+  );
+  log.debug("num browser processes: ", processes.length);
 
-      log.debug("num child processes for pid: ", pid, ", ", children.length);
-      const childDataPromises: Promise<ProcessDatapoint>[] = [];
-      const childDataPids: PID[] = [];
-      for (const aChild of children) {
-        let childPid: undefined | PID;
-        try {
-          childPid = parseInt(aChild.PID, 10);
-        } catch {
-          log.error(`Invalid PID, could not parse as int: "${aChild.PID}"`);
-          continue;
-        }
-        childDataPromises.push(processUsage(childPid));
-        childDataPids.push(childPid);
-      }
-
-      let numReject = 0;
-      Promise.allSettled(childDataPromises)
-        .then((results) => {
-          let index = 0;
-          const numResults = results.length;
-          const childDataPoints: ProcessDatapoint[] = [];
-          for (const aResult of results) {
-            const aPid = childDataPids[index];
-            index += 1;
-            const prefix = `(${index.toString()}/${numResults.toString()}) `;
-            if (aResult.status === "rejected") {
-              log.debug(prefix, "Error receiving usage data for pid: ", aPid);
-              log.debug(aResult.reason);
-            } else {
-              numReject += 1;
-              log.debug(prefix, "Received usage data for pid: ", aPid);
-              childDataPoints.push(aResult.value);
-            }
-          }
-          resolve(childDataPoints);
-        })
-        .catch((error: unknown) => {
-          // We expect there to always be a single rejection, which will
-          // be the ps process trying to get information on itself.
-          // So we only propagate the error if we had more than one rejection.
-          if (numReject > 1) {
-            if (error instanceof Error) {
-              reject(error);
-            } else {
-              const errMsg =
-                "Unexpected # of child mem use rejections: " +
-                numReject.toString();
-              reject(new Error(errMsg));
-            }
-          }
-        });
+  const results = await Promise.allSettled(
+    processes.map((x) => readUsage(x.pid)),
+  );
+  const datapoints: ProcessDatapoint[] = [];
+  let index = 0;
+  for (const aResult of results) {
+    const aProcess = processes[index];
+    index += 1;
+    const prefix = `(${index.toString()}/${results.length.toString()}) `;
+    // Processes can exit between being listed and being measured.
+    if (aResult.status === "rejected") {
+      log.debug(prefix, "Error receiving usage data for pid: ", aProcess.pid);
+      log.debug(aResult.reason);
+      continue;
+    }
+    log.debug(prefix, "Received usage data for pid: ", aProcess.pid);
+    datapoints.push({
+      pid: aProcess.pid,
+      role: roleForCommandLine(aProcess.args),
+      ...aResult.value,
     });
-  });
+  }
+  return datapoints;
+};
+
+const makeProcessTotals = (backend: MemoryBackend): ProcessTotals => {
+  const hasMemoryDetail = backend === MemoryBackend.Proc;
+  return {
+    memory: 0,
+    cpu: 0,
+    memoryDetail: hasMemoryDetail ? { rss: 0, pss: 0, uss: 0, swap: 0 } : null,
+  };
+};
+
+const addToTotals = (totals: ProcessTotals, datapoint: ProcessDatapoint) => {
+  totals.memory += datapoint.mem;
+  totals.cpu += datapoint.cpu;
+  if (totals.memoryDetail === null) {
+    return;
+  }
+  if (datapoint.memoryDetail === null) {
+    totals.memoryDetail = null;
+    return;
+  }
+  totals.memoryDetail.rss += datapoint.memoryDetail.rss;
+  totals.memoryDetail.pss += datapoint.memoryDetail.pss;
+  totals.memoryDetail.uss += datapoint.memoryDetail.uss;
+  totals.memoryDetail.swap += datapoint.memoryDetail.swap;
 };
 
 const getDatapoint = async (
   logger: Logger,
-  pid: PID,
+  source: DatapointSource,
   type: DatapointType,
-): Promise<Datapoint> => {
+): Promise<MemoryCPUDatapoint> => {
+  const { backend, harnessPid } = source;
   const subLog = logger.prefixedLogger("getDatapoint(): ");
-  subLog.verbose("fetching memory usage for pid=", pid);
-  const childDatapoints = await processTreeUsage(logger, pid);
-  subLog.debug("num successful datapoints: ", childDatapoints.length);
-
-  let memoryTotal = 0;
-  let cpuTotal = 0;
-  for (const aDatapoint of childDatapoints) {
-    memoryTotal += aDatapoint.mem;
-    cpuTotal += aDatapoint.cpu;
-  }
-
-  const datapoint: Datapoint = {
-    totals: {
-      memory: memoryTotal,
-      cpu: cpuTotal,
-    },
-    processes: childDatapoints,
+  subLog.verbose("fetching memory usage for browser of pid=", harnessPid);
+  const processes = await browserProcessUsage(logger, source);
+  subLog.debug("num successful datapoints: ", processes.length);
+
+  const totals = makeProcessTotals(backend);
+  const byRole: Record<string, ProcessTotals> = {};
+  for (const aDatapoint of processes) {
+    const roleKey = aDatapoint.role ?? ProcessRole.Other;
+    byRole[roleKey] ??= makeProcessTotals(backend);
+    addToTotals(totals, aDatapoint);
+    addToTotals(byRole[roleKey], aDatapoint);
+  }
+
+  const datapoint: MemoryCPUDatapoint = {
+    totals: totals,
+    byRole: byRole,
+    processes: processes,
+    backend: backend,
     time: new Date(),
     type: type,
   };
@@ -146,38 +383,68 @@ const getDatapoint = async (
 };
 
 export class MemoryCPUMeasurer extends BaseMeasurer {
-  // Interval for how often to take memory measurements once we've started
-  // "the experiment" (i.e., loading the webpage).
-  static intervalMs = 5000;
-
   readonly type = MeasurementType.MemoryCPU;
-  readonly #pid: PID;
-  readonly #measurements: Datapoint[] = [];
+  readonly #datapoints: MemoryCPUDatapoint[] = [];
+  readonly #source: DatapointSource;
 
   #intervalId?: NodeJS.Timeout = undefined;
+  // The "during" datapoint currently being taken, if any.
+  #pendingDatapoint?: Promise<void> = undefined;
+  #numSkippedSamples = 0;
 
-  constructor(logger: Logger, url: URL, context: BrowserContext) {
-    super(logger, url, context);
-    this.#pid = process.pid;
+  constructor(logger: Logger, runConfig: RunConfig, context: BrowserContext) {
+    super(logger, runConfig, context);
+    const { binary, memoryBackend } = runConfig;
+    this.#source = {
+      harnessPid: process.pid,
+      // The paths the browser binary might appear as in the command line of
+      // the browser's main process (i.e., as given, and with any symlinks
+      // resolved, which is done in beforeStart()).
+      binaryPaths: [binary],
+      backend: memoryBackend,
+      readUsage: backendToReaderMap[memoryBackend](),
+    };
   }
 
   async beforeStart(): Promise<undefined> {
     const log = this.logger.prefixedLogger("MemoryCPUMeasurer:beforeStart(): ");
-    const datapoint = await getDatapoint(log, this.#pid, "before");
-    this.#measurements.push(datapoint);
+    const { binary } = this.runConfig;
+    try {
+      const resolvedPath = await realpath(binary);
+      if (resolvedPath !== binary) {
+        this.#source.binaryPaths.push(resolvedPath);
+      }
+    } catch (err: unknown) {
+      this.logVerbose("Unable to resolve browser binary path: ", err);
+    }
+    const datapoint = await getDatapoint(log, this.#source, "before");
+    this.#datapoints.push(datapoint);
   }
 
+  // Takes memory measurements every --memory-cpu-interval milliseconds once
+  // we've started "the experiment" (i.e., loading the webpage).
   start(): undefined {
     const logger = this.logger.prefixedLogger("MemoryCPUMeasurer:start(): ");
     this.#intervalId = setInterval(() => {
-      getDatapoint(logger, this.#pid, "during")
+      // If taking the previous datapoint is taking longer than the interval
+      // (e.g., because there are many browser processes), skip this one,
+      // so that datapoints never overlap.
+      if (this.#pendingDatapoint !== undefined) {
+        this.#numSkippedSamples += 1;
+        this.logVerbose("Skipping sample, previous sample hasn't finished");
+        return;
+      }
+      this.#pendingDatapoint = getDatapoint(logger, this.#source, "during")
         .then((x) => {
-          this.#measurements.push(x);
+          this.#datapoints.push(x);
         })
         .catch((err: unknown) => {
           this.logError(err);
+        })
+        .finally(() => {
+          this.#pendingDatapoint = undefined;
         });
-    }, MemoryCPUMeasurer.intervalMs);
+    }, this.runConfig.memoryCPUInterval);
   }
 
   close(): boolean {
@@ -188,13 +455,20 @@ export class MemoryCPUMeasurer extends BaseMeasurer {
     return super.close();
   }
 
-  async collect(): Promise<MeasurementResult | null> {
+  async collect(): Promise<MeasurementResult<MemoryCPUMeasurement> | null> {
     const logger = this.logger.prefixedLogger("MemoryCPUMeasurer:collect(): ");
-    const datapoint = await getDatapoint(logger, this.#pid, "end");
-    this.#measurements.push(datapoint);
+    await this.#pendingDatapoint;
+    const datapoint = await getDatapoint(logger, this.#source, "end");
+    this.#datapoints.push(datapoint);
     return {
       type: this.type,
-      data: this.#measurements,
+      data: {
+        datapoints: this.#datapoints,
+        summary: summarizeMemoryCPU(this.#datapoints, {
+          intervalMs: this.runConfig.memoryCPUInterval,
+          skippedSamples: this.#numSkippedSamples,
+        }),
+      },
     };
   }
 }
@@ -0,0 +1,153 @@
+import {
+  NetworkDatapoint,
+  NetworkSummary,
+  NetworkThroughput,
+  NetworkTotals,
+  PageNetworkMeasurement,
+} from "./network.js";
+
+const throughputIntervalMs = 1000;
+const unknownContextKey = "unknown";
+
+const makeNetworkTotals = (): NetworkTotals => {
+  return {
+    requests: 0,
+    requestBytes: 0,
+    responses: 0,
+    responseBytes: 0,
+  };
+};
+
+// Adds a request or response to the given totals. Sizes that couldn't be
+// determined (i.e., -1) are counted as requests or responses, but don't
+// add to the byte totals.
+const addToTotals = (
+  totals: NetworkTotals,
+  datapoint: NetworkDatapoint,
+  isRequest: boolean,
+) => {
+  const size = Math.max(datapoint.size, 0);
+  if (isRequest) {
+    totals.requests += 1;
+    totals.requestBytes += size;
+  } else {
+    totals.responses += 1;
+    totals.responseBytes += size;
+  }
+};
+
+// Same as addToTotals(), but for the totals for the given key in a group
+// of totals (e.g., the totals for each resource type).
+export const addToGroupTotals = (
+  group: Record<string, NetworkTotals>,
+  key: string,
+  datapoint: NetworkDatapoint,
+  isRequest: boolean,
+) => {
+  group[key] ??= makeNetworkTotals();
+  addToTotals(group[key], datapoint, isRequest);
+};
+
+const originForURL = (url: string): string => {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return "null";
+  }
+};
+
+// Bytes sent and received in each interval of the measurement window,
+// based on the time each request was sent, and each response was received.
+const throughputForPages = (
+  pages: Pick<PageNetworkMeasurement, "requests" | "responses">[],
+  startTime: number,
+  endTime: number,
+): NetworkThroughput => {
+  const numIntervals = Math.ceil((endTime - startTime) / throughputIntervalMs);
+  const intervals = Array.from({ length: Math.max(numIntervals, 1) }, () => {
+    return { requestBytes: 0, responseBytes: 0 };
+  });
+
+  // Returns undefined for datapoints outside of the measurement window.
+  const intervalFor = (datapoint: NetworkDatapoint) => {
+    const offset = datapoint.time - startTime;
+    return intervals[Math.floor(offset / throughputIntervalMs)] as
+      | (typeof intervals)[number]
+      | undefined;
+  };
+
+  for (const aPage of pages) {
+    for (const aRequest of aPage.requests) {
+      const interval = intervalFor(aRequest);
+      if (interval !== undefined) {
+        interval.requestBytes += Math.max(aRequest.size, 0);
+      }
+    }
+    for (const aResponse of aPage.responses) {
+      const interval = intervalFor(aResponse);
+      if (interval !== undefined) {
+        interval.responseBytes += Math.max(aResponse.size, 0);
+      }
+    }
+  }
+
+  return {
+    startTime: startTime,
+    intervalMs: throughputIntervalMs,
+    intervals: intervals,
+  };
+};
+
+// Summarizes the requests and responses in the given pages. If the
+// measurement window isn't given, the summary doesn't include throughput.
+export const summarizeNetwork = (
+  pages: Pick<PageNetworkMeasurement, "requests" | "responses">[],
+  window?: { startTime: number; endTime: number },
+): NetworkSummary => {
+  const summary: NetworkSummary = {
+    totals: makeNetworkTotals(),
+    byResourceType: {},
+    byOrigin: {},
+    bySecurityContext: {},
+    unknownSizes: {
+      requests: 0,
+      responses: 0,
+    },
+    throughput: null,
+  };
+
+  const addDatapoint = (datapoint: NetworkDatapoint, isRequest: boolean) => {
+    const { byOrigin, byResourceType, bySecurityContext } = summary;
+    const origin = originForURL(datapoint.url);
+    const context = datapoint.context ?? unknownContextKey;
+    addToTotals(summary.totals, datapoint, isRequest);
+    addToGroupTotals(byResourceType, datapoint.type, datapoint, isRequest);
+    addToGroupTotals(byOrigin, origin, datapoint, isRequest);
+    addToGroupTotals(bySecurityContext, context, datapoint, isRequest);
+    if (datapoint.size < 0) {
+      if (isRequest) {
+        summary.unknownSizes.requests += 1;
+      } else {
+        summary.unknownSizes.responses += 1;
+      }
+    }
+  };
+
+  for (const aPage of pages) {
+    for (const aRequest of aPage.requests) {
+      addDatapoint(aRequest, true);
+    }
+    for (const aResponse of aPage.responses) {
+      addDatapoint(aResponse, false);
+    }
+  }
+
+  if (window !== undefined) {
+    summary.throughput = throughputForPages(
+      pages,
+      window.startTime,
+      window.endTime,
+    );
+  }
+  return summary;
+};
@@ -1,4 +1,6 @@
 import assert from "node:assert/strict";
+import { writeFile } from "node:fs/promises";
+import { setTimeout } from "node:timers/promises";
 
 import {
   BrowserContext,
@@ -10,23 +12,170 @@ import {
 } from "@playwright/test";
 
 import { BaseMeasurer, MeasurementResult } from "./base.js";
+import {
+  classificationTotals,
+  makeTrafficClassifier,
+  Party,
+  TrafficClassification,
+  TrafficClassifier,
+} from "./classify.js";
+import { HAREntry, harEntryForResponse, HARLog, makeHARLog } from "./har.js";
+import { summarizeNetwork } from "./network-summary.js";
+import { artifactPath, getVersion } from "../config.js";
 import { Logger, LoggingLevel } from "../logging.js";
-import { MeasurementType, Serializable, WSFrame } from "../types.js";
+import { MeasurementType, Path, RunConfig, WSFrame } from "../types.js";
 
-type SecurityContext = string | null;
+export type SecurityContext = string | null;
 type HTTPHeaders = { name: string; value: string }[];
 type ResourceType = string;
 type Timestamp = number;
 type URLString = string;
 
-interface Datapoint {
+export interface NetworkDatapoint {
   context: SecurityContext;
+  // Whether the request or response is for the same site (i.e., eTLD+1) as
+  // the URL being measured, or null if the URL has no hostname (e.g., data:
+  // URLs).
+  party: Party | null;
+  // The --tracker-list category the URL matched, if any.
+  category: string | null;
+  // Size of the request or response (headers and body) in bytes, or -1 if
+  // the size couldn't be determined.
   size: number;
+  // When the request was sent, or the response was received, in
+  // milliseconds since the epoch. (Reports from before schema version 5
+  // recorded the time of HTTP requests and responses as an offset from when
+  // the request was started, or -1.)
+  time: Timestamp;
+  type: ResourceType;
+  url: URLString;
+}
+
+// A request that didn't get a response, either because the browser
+// blocked it (e.g., by Brave Shields, Firefox's Enhanced Tracking
+// Protection, or an extension), or because it failed (e.g., a DNS or
+// connection error, or the request being aborted).
+export interface FailedRequestDatapoint {
+  context: SecurityContext;
+  party: Party | null;
+  category: string | null;
+  // The reason the browser gave for the failure (e.g.,
+  // "net::ERR_BLOCKED_BY_CLIENT").
+  errorText: string;
+  isBlocked: boolean;
   time: Timestamp;
   type: ResourceType;
   url: URLString;
 }
 
+// The number of requests made by a page that completed (i.e., received
+// a response, including HTTP error responses), were blocked, or failed.
+export interface RequestOutcomes {
+  blocked: number;
+  completed: number;
+  failed: number;
+}
+
+// Requests and responses made by a single page (i.e., tab).
+export interface PageNetworkMeasurement {
+  meta: {
+    startTime: Timestamp;
+    url: URLString;
+    // Path to the HAR file for the page, if one was written (i.e., --har).
+    har?: Path;
+  };
+  requests: NetworkDatapoint[];
+  responses: NetworkDatapoint[];
+  failures: FailedRequestDatapoint[];
+  // Null for reports from before request outcomes were recorded.
+  outcomes: RequestOutcomes | null;
+}
+
+// The number, and total size, of a group of requests and responses.
+export interface NetworkTotals {
+  requests: number;
+  requestBytes: number;
+  responses: number;
+  responseBytes: number;
+}
+
+export interface NetworkClassificationTotals {
+  // Path to the --tracker-list file the categories came from, if any.
+  trackerList: Path | null;
+  // Keyed by Party, or "unknown" for requests and responses that couldn't
+  // be classified.
+  byParty: Record<string, NetworkTotals>;
+  // Only includes requests and responses that matched a category.
+  byCategory: Record<string, NetworkTotals>;
+}
+
+// The bytes sent and received in each interval (e.g., each second) of
+// the measurement, starting at startTime.
+export interface NetworkThroughput {
+  startTime: Timestamp;
+  intervalMs: number;
+  intervals: {
+    requestBytes: number;
+    responseBytes: number;
+  }[];
+}
+
+// Totals of the requests and responses in all pages in a measurement.
+export interface NetworkSummary {
+  totals: NetworkTotals;
+  byResourceType: Record<ResourceType, NetworkTotals>;
+  byOrigin: Record<string, NetworkTotals>;
+  // Keyed by security context, or "unknown" for requests and responses
+  // where the context couldn't be determined.
+  bySecurityContext: Record<string, NetworkTotals>;
+  // The number of requests and responses whose size couldn't be determined
+  // (and so aren't included in any of the byte totals).
+  unknownSizes: {
+    requests: number;
+    responses: number;
+  };
+  // Null for reports from before schema version 5, since the times
+  // requests and responses were recorded at can't be compared.
+  throughput: NetworkThroughput | null;
+}
+
+// The data recorded by NetworkMeasurer.
+export interface NetworkMeasurement {
+  meta: {
+    startTime: Timestamp;
+    endTime?: Timestamp;
+  };
+  summary: NetworkSummary;
+  classification: NetworkClassificationTotals;
+  pages: PageNetworkMeasurement[];
+}
+
+// Error text browsers use when a request is blocked, instead of failing
+// for some other reason:
+// - Chromium (including blocking by Brave Shields and extensions) uses
+//   "net::ERR_BLOCKED_BY_CLIENT" and similar,
+// - Gecko uses the "NS_ERROR_*_URI" errors for requests blocked by Enhanced
+//   Tracking Protection (e.g., "NS_ERROR_TRACKING_URI"), and
+//   "NS_ERROR_CONTENT_BLOCKED" for requests blocked by extensions,
+// - WebKit describes requests blocked by content blockers in prose.
+const blockedErrorPatterns = [
+  /^net::ERR_BLOCKED_BY_/,
+  /^NS_ERROR_[A-Z]+_URI$/,
+  /^NS_ERROR_CONTENT_BLOCKED/,
+  /blocked by (a )?content blocker/i,
+];
+
+const isBlockedErrorText = (errorText: string): boolean => {
+  return blockedErrorPatterns.some((x) => x.test(errorText));
+};
+
+// Playwright records when a response started as an offset from when
+// the request started (or -1, if it isn't known yet).
+const timeOfResponse = (request: Request): Timestamp => {
+  const { responseStart, startTime } = request.timing();
+  return responseStart >= 0 ? startTime + responseStart : Date.now();
+};
+
 const getSecurityContext = async (frame: Frame): Promise<SecurityContext> => {
   try {
     const response = await frame.evaluate("window.origin");
@@ -164,39 +313,114 @@ const getResponseSize = async (
 
 class PageNetworkLogger {
   readonly #owner: ContextNetworkLogger;
-  readonly #requests: Datapoint[] = [];
-  readonly #responses: Datapoint[] = [];
+  readonly #requests: NetworkDatapoint[] = [];
+  readonly #responses: NetworkDatapoint[] = [];
+  readonly #failures: FailedRequestDatapoint[] = [];
   readonly #pageURL: URLString;
+  readonly #pageRef: string;
   readonly #logger: Logger;
   readonly #startTime: number;
-
-  constructor(owner: ContextNetworkLogger, logger: Logger, pageURL: URLString) {
+  // Null if we're not recording HAR entries for the page.
+  readonly #harEntries: Promise<HAREntry | null>[] | null;
+
+  #harPath?: Path;
+  #numCompletedRequests = 0;
+
+  constructor(
+    owner: ContextNetworkLogger,
+    logger: Logger,
+    pageURL: URLString,
+    pageRef: string,
+    shouldRecordHAR: boolean,
+  ) {
     this.#owner = owner;
     this.#pageURL = pageURL;
+    this.#pageRef = pageRef;
     this.#logger = logger;
     this.#startTime = Date.now();
+    this.#harEntries = shouldRecordHAR ? [] : null;
   }
 
-  toJSON(): Serializable {
+  toJSON(): PageNetworkMeasurement {
     return {
       meta: {
         startTime: this.#startTime,
         url: this.#pageURL,
+        har: this.#harPath,
       },
       requests: this.#requests,
       responses: this.#responses,
+      failures: this.#failures,
+      outcomes: {
+        blocked: this.#failures.filter((x) => x.isBlocked).length,
+        completed: this.#numCompletedRequests,
+        failed: this.#failures.filter((x) => !x.isBlocked).length,
+      },
+    };
+  }
+
+  // Writes the requests and responses for the page to a HAR file at the
+  // given path. Entries for responses that haven't finished loading
+  // within timeoutMs are left out of the HAR file.
+  async writeHAR(path: Path, timeoutMs: number): Promise<void> {
+    assert(this.#harEntries);
+    const timedOut = setTimeout(timeoutMs, null, { ref: false });
+    const entries: HAREntry[] = [];
+    for (const anEntry of this.#harEntries) {
+      const entry = await Promise.race([anEntry, timedOut]);
+      if (entry !== null) {
+        entries.push(entry);
+      }
+    }
+    const numSkipped = this.#harEntries.length - entries.length;
+    if (numSkipped > 0) {
+      this.#logger.info(
+        `Leaving ${numSkipped.toString()} unfinished responses out of ` +
+          `HAR file "${path}"`,
+      );
+    }
+
+    const page = {
+      id: this.#pageRef,
+      startedDateTime: new Date(this.#startTime).toISOString(),
+      title: this.#pageURL,
+      pageTimings: {},
     };
+    const harLog: HARLog = makeHARLog(await getVersion(), [page], entries);
+    await writeFile(path, JSON.stringify(harLog), "utf8");
+    this.#harPath = path;
+  }
+
+  #addHAREntry(response: Response, context: SecurityContext) {
+    if (this.#harEntries === null) {
+      return;
+    }
+    const entry = harEntryForResponse(response, context, this.#pageRef).catch(
+      (err: unknown) => {
+        logSizeError(
+          this.#logger,
+          response.url(),
+          "harEntryForResponse(): ",
+          response.request().method(),
+          err,
+        );
+        return null;
+      },
+    );
+    this.#harEntries.push(entry);
   }
 
   isClosed(): boolean {
     return this.#owner.isClosed();
   }
 
-  logErrorIfClosed(msg: string, url: URLString): boolean {
+  // Events that happen after the measurement ends (e.g., while waiting for
+  // events that are "in the air" to finish) aren't recorded.
+  skipIfClosed(msg: string, url: URLString): boolean {
     if (this.isClosed()) {
-      this.#logger.error(
-        `tried to record "${msg}" but measurements are ` +
-          `closed. url=$"${url}"`,
+      this.#logger.verbose(
+        `not recording "${msg}" since measurements are ` +
+          `closed. url="${url}"`,
       );
       return true;
     }
@@ -207,13 +431,14 @@ class PageNetworkLogger {
     url: URLString,
     context: SecurityContext,
     data: WSFrame,
-  ): Datapoint | null {
-    if (this.logErrorIfClosed("ws request", url)) {
+  ): NetworkDatapoint | null {
+    if (this.skipIfClosed("ws request", url)) {
       return null;
     }
 
     const datapoint = {
       context: context,
+      ...this.#owner.classify(url),
       size: data.length,
       time: Date.now(),
       type: "websocket",
@@ -228,13 +453,14 @@ class PageNetworkLogger {
     url: URLString,
     context: SecurityContext,
     data: WSFrame,
-  ): Datapoint | null {
-    if (this.logErrorIfClosed("ws response", url)) {
+  ): NetworkDatapoint | null {
+    if (this.skipIfClosed("ws response", url)) {
       return null;
     }
 
     const datapoint = {
       context: context,
+      ...this.#owner.classify(url),
       size: data.length,
       time: Date.now(),
       type: "websocket",
@@ -248,15 +474,17 @@ class PageNetworkLogger {
   async addRequest(
     request: Request,
     context: SecurityContext,
-  ): Promise<Datapoint | null> {
-    if (this.logErrorIfClosed("request", request.url())) {
+    time: Timestamp,
+  ): Promise<NetworkDatapoint | null> {
+    if (this.skipIfClosed("request", request.url())) {
       return null;
     }
 
-    const datapoint: Datapoint = {
+    const datapoint: NetworkDatapoint = {
       context: context,
+      ...this.#owner.classify(request.url()),
       size: (await getRequestSize(this.#logger, request)) ?? -1,
-      time: request.timing().requestStart,
+      time: time,
       type: request.resourceType(),
       url: request.url(),
     };
@@ -268,34 +496,74 @@ class PageNetworkLogger {
   async addResponse(
     response: Response,
     context: SecurityContext,
-  ): Promise<Datapoint | null> {
-    if (this.logErrorIfClosed("response", response.url())) {
+  ): Promise<NetworkDatapoint | null> {
+    if (this.skipIfClosed("response", response.url())) {
       return null;
     }
 
     let request = response.request();
-    const datapoint: Datapoint = {
+    const datapoint: NetworkDatapoint = {
       context: context,
+      ...this.#owner.classify(response.url()),
       size: (await getResponseSize(this.#logger, response)) ?? -1,
-      time: request.timing().responseEnd,
+      time: timeOfResponse(request),
       type: request.resourceType(),
       url: response.url(),
     };
     this.#responses.push(datapoint);
     this.#logger.debug("Network (Received): ", datapoint);
+    this.#addHAREntry(response, context);
 
     // And now see if this response was a result of a redirection chain,
     // in which case we need to add all the intermediate requests too
     // (since we'll have already recorded the initial request).
     while (request.redirectedFrom()) {
       const securityContext = await getSecurityContext(request.frame());
-      await this.addRequest(request, securityContext);
+      // Requests that were redirected have complete timing information.
+      await this.addRequest(
+        request,
+        securityContext,
+        request.timing().startTime,
+      );
       const nextRequest = request.redirectedFrom();
       assert(nextRequest);
       request = nextRequest;
     }
     return datapoint;
   }
+
+  addRequestFailure(
+    request: Request,
+    context: SecurityContext,
+  ): FailedRequestDatapoint | null {
+    if (this.skipIfClosed("request failure", request.url())) {
+      return null;
+    }
+
+    // Playwright only calls "requestfailed" listeners for requests that
+    // have failed, so this should always be set.
+    const errorText = request.failure()?.errorText ?? "unknown";
+    const datapoint: FailedRequestDatapoint = {
+      context: context,
+      ...this.#owner.classify(request.url()),
+      errorText: errorText,
+      isBlocked: isBlockedErrorText(errorText),
+      time: Date.now(),
+      type: request.resourceType(),
+      url: request.url(),
+    };
+    this.#failures.push(datapoint);
+    this.#logger.debug("Network (Failed): ", datapoint);
+    return datapoint;
+  }
+
+  noteRequestFinished(request: Request): boolean {
+    if (this.skipIfClosed("request finished", request.url())) {
+      return false;
+    }
+    this.#numCompletedRequests += 1;
+    return true;
+  }
 }
 
 class ContextNetworkLogger {
@@ -303,21 +571,34 @@ class ContextNetworkLogger {
   readonly #pageToLoggerMap: WeakMap<Page, PageNetworkLogger>;
   readonly #logger: Logger;
   readonly #startTime: number;
+  readonly #shouldRecordHAR: boolean;
+  readonly #classifier: TrafficClassifier;
+  readonly #trackerListPath: Path | null;
 
   #isClosed = false;
   #endTime?: number;
 
-  constructor(logger: Logger) {
+  constructor(logger: Logger, runConfig: RunConfig) {
     this.#startTime = Date.now();
     this.#pageToLoggerMap = new WeakMap();
     this.#logger = logger;
+    this.#shouldRecordHAR = runConfig.har;
+    this.#classifier = makeTrafficClassifier(
+      runConfig.url,
+      runConfig.trackerList?.categories,
+    );
+    this.#trackerListPath = runConfig.trackerList?.path ?? null;
+  }
+
+  classify(url: URLString): TrafficClassification {
+    return this.#classifier(url);
   }
 
   async addWSRequest(
     page: Page,
     url: URLString,
     data: WSFrame,
-  ): Promise<Datapoint | null> {
+  ): Promise<NetworkDatapoint | null> {
     const pageForRequest = this.#pageToLoggerMap.get(page);
     assert(pageForRequest);
     const securityContext = await getSecurityContext(page.mainFrame());
@@ -328,27 +609,50 @@ class ContextNetworkLogger {
     page: Page,
     url: URLString,
     data: WSFrame,
-  ): Promise<Datapoint | null> {
+  ): Promise<NetworkDatapoint | null> {
     const pageForResponse = this.#pageToLoggerMap.get(page);
     assert(pageForResponse);
     const securityContext = await getSecurityContext(page.mainFrame());
     return pageForResponse.addWebSocketResponse(url, securityContext, data);
   }
 
-  async addRequest(page: Page, request: Request): Promise<Datapoint | null> {
+  async addRequest(
+    page: Page,
+    request: Request,
+    time: Timestamp,
+  ): Promise<NetworkDatapoint | null> {
     const pageForRequest = this.#pageToLoggerMap.get(page);
     assert(pageForRequest);
     const securityContext = await getSecurityContext(page.mainFrame());
-    return await pageForRequest.addRequest(request, securityContext);
+    return await pageForRequest.addRequest(request, securityContext, time);
   }
 
-  async addResponse(page: Page, response: Response): Promise<Datapoint | null> {
+  async addResponse(
+    page: Page,
+    response: Response,
+  ): Promise<NetworkDatapoint | null> {
     const pageForResponse = this.#pageToLoggerMap.get(page);
     assert(pageForResponse);
     const securityContext = await getSecurityContext(page.mainFrame());
     return await pageForResponse.addResponse(response, securityContext);
   }
 
+  async addRequestFailure(
+    page: Page,
+    request: Request,
+  ): Promise<FailedRequestDatapoint | null> {
+    const pageForRequest = this.#pageToLoggerMap.get(page);
+    assert(pageForRequest);
+    const securityContext = await getSecurityContext(page.mainFrame());
+    return pageForRequest.addRequestFailure(request, securityContext);
+  }
+
+  noteRequestFinished(page: Page, request: Request): boolean {
+    const pageForRequest = this.#pageToLoggerMap.get(page);
+    assert(pageForRequest);
+    return pageForRequest.noteRequestFinished(request);
+  }
+
   // Notes that the top level frame in the page has navigated, and so
   // any future requests that happen on the page are happening on a different
   // top level document.
@@ -361,7 +665,14 @@ class ContextNetworkLogger {
       );
       return null;
     }
-    const pageLogger = new PageNetworkLogger(this, this.#logger, page.url());
+    const pageRef = `page_${(this.#pageLoggers.length + 1).toString()}`;
+    const pageLogger = new PageNetworkLogger(
+      this,
+      this.#logger,
+      page.url(),
+      pageRef,
+      this.#shouldRecordHAR,
+    );
     this.#pageLoggers.push(pageLogger);
     this.#pageToLoggerMap.set(page, pageLogger);
     return pageLogger;
@@ -371,17 +682,27 @@ class ContextNetworkLogger {
     return this.#isClosed;
   }
 
-  toJSON(): Serializable {
-    const pageReports: Serializable[] = [];
+  pageLoggers(): PageNetworkLogger[] {
+    return this.#pageLoggers;
+  }
+
+  toJSON(): NetworkMeasurement {
+    const pageReports: PageNetworkMeasurement[] = [];
     for (const aLogger of this.#pageLoggers) {
       pageReports.push(aLogger.toJSON());
     }
 
+    const window = {
+      startTime: this.#startTime,
+      endTime: this.#endTime ?? Date.now(),
+    };
     return {
       meta: {
         startTime: this.#startTime,
         endTime: this.#endTime,
       },
+      summary: summarizeNetwork(pageReports, window),
+      classification: classificationTotals(pageReports, this.#trackerListPath),
       pages: pageReports,
     };
   }
@@ -402,9 +723,9 @@ export class NetworkMeasurer extends BaseMeasurer {
   readonly type = MeasurementType.Network;
   readonly #netLogger: ContextNetworkLogger;
 
-  constructor(logger: Logger, url: URL, context: BrowserContext) {
-    super(logger, url, context);
-    this.#netLogger = new ContextNetworkLogger(logger);
+  constructor(logger: Logger, runConfig: RunConfig, context: BrowserContext) {
+    super(logger, runConfig, context);
+    this.#netLogger = new ContextNetworkLogger(logger, runConfig);
   }
 
   #instrumentPage(page: Page) {
@@ -421,13 +742,24 @@ export class NetworkMeasurer extends BaseMeasurer {
     });
 
     page.on("request", async (request: Request) => {
-      return await this.#netLogger.addRequest(page, request);
+      // Playwright only has timing information for requests that got
+      // a response, so blocked and failed requests would have no start time.
+      const time = Date.now();
+      return await this.#netLogger.addRequest(page, request, time);
     });
 
     page.on("response", async (response: Response) => {
       return await this.#netLogger.addResponse(page, response);
     });
 
+    page.on("requestfailed", async (request: Request) => {
+      return await this.#netLogger.addRequestFailure(page, request);
+    });
+
+    page.on("requestfinished", (request: Request) => {
+      return this.#netLogger.noteRequestFinished(page, request);
+    });
+
     page.on("framenavigated", (frame: Frame) => {
       // If any frame other than the top level frame is navigating,
       // we don't care about it (since requests and other behaviors
@@ -441,17 +773,39 @@ export class NetworkMeasurer extends BaseMeasurer {
 
   instrumentContext() {
     super.instrumentContext();
-    this.context.on("page", (page: Page) => {
+    this.onPage((page: Page) => {
       this.#instrumentPage(page);
     });
   }
 
-  // Disabling the linter here because this method is async, so that
-  // other classes implementations can await/async if needed.
-  //
-  // eslint-disable-next-line @typescript-eslint/require-await
-  async collect(): Promise<MeasurementResult | null> {
+  // The network logger is closed along with the measurement, so that
+  // requests made while waiting for events to drain aren't recorded, and
+  // aren't included in the summary.
+  closeIfOpen(): boolean {
+    if (!super.closeIfOpen()) {
+      return false;
+    }
+    this.#netLogger.close();
+    return true;
+  }
+
+  // Writes a HAR file for each page, alongside the report.
+  async #writeHARFiles() {
+    const timeoutMs = this.runConfig.timeout * 1000;
+    const pageLoggers = this.#netLogger.pageLoggers();
+    for (const [index, aPageLogger] of pageLoggers.entries()) {
+      const suffix = `page-${(index + 1).toString()}.har`;
+      const harPath = artifactPath(this.runConfig, suffix);
+      this.logVerbose(`Writing HAR file "${harPath}"`);
+      await aPageLogger.writeHAR(harPath, timeoutMs);
+    }
+  }
+
+  async collect(): Promise<MeasurementResult<NetworkMeasurement> | null> {
     this.closeIfOpen();
+    if (this.runConfig.har) {
+      await this.#writeHARFiles();
+    }
     return {
       type: this.type,
       data: this.#netLogger.toJSON(),
@@ -0,0 +1,125 @@
+import { inflateSync } from "node:zlib";
+
+// The decoded pixels of a PNG image, with one byte per channel, and
+// "channels" bytes per pixel (1 for grayscale, 2 for grayscale with alpha,
+// 3 for RGB, and 4 for RGBA), row by row.
+export interface DecodedPNG {
+  width: number;
+  height: number;
+  channels: number;
+  pixels: Uint8Array;
+}
+
+const pngSignature = Buffer.from([137, 80, 78, 71, 13, 10, 26, 10]);
+
+// The number of channels for each PNG color type we can decode. Palette
+// images (color type 3) aren't supported.
+const channelsForColorType: Record<number, number | undefined> = {
+  0: 1,
+  2: 3,
+  4: 2,
+  6: 4,
+};
+
+// Predicts a byte from its left, upper and upper left neighbours, as
+// described in the PNG spec.
+const paethPredictor = (left: number, up: number, upLeft: number): number => {
+  const estimate = left + up - upLeft;
+  const leftDistance = Math.abs(estimate - left);
+  const upDistance = Math.abs(estimate - up);
+  const upLeftDistance = Math.abs(estimate - upLeft);
+  if (leftDistance <= upDistance && leftDistance <= upLeftDistance) {
+    return left;
+  }
+  return upDistance <= upLeftDistance ? up : upLeft;
+};
+
+// Decodes the 8 bit, non-interlaced PNG images that browsers return for
+// screenshots, throwing for any other kind of PNG.
+export const decodePNG = (data: Buffer): DecodedPNG => {
+  if (!data.subarray(0, pngSignature.length).equals(pngSignature)) {
+    throw new Error("Unable to decode PNG: missing PNG signature.");
+  }
+
+  let width = 0;
+  let height = 0;
+  let channels: number | undefined;
+  const compressedChunks: Buffer[] = [];
+  let offset = pngSignature.length;
+  while (offset + 8 <= data.length) {
+    const length = data.readUInt32BE(offset);
+    const chunkType = data.toString("latin1", offset + 4, offset + 8);
+    const chunkData = data.subarray(offset + 8, offset + 8 + length);
+    // Each chunk ends with a 4 byte CRC, which we don't check.
+    offset += length + 12;
+
+    if (chunkType === "IHDR") {
+      width = chunkData.readUInt32BE(0);
+      height = chunkData.readUInt32BE(4);
+      const bitDepth = chunkData[8];
+      const colorType = chunkData[9];
+      const interlace = chunkData[12];
+      channels = channelsForColorType[colorType];
+      if (bitDepth !== 8 || channels === undefined || interlace !== 0) {
+        throw new Error(
+          "Unable to decode PNG: only 8 bit, non-interlaced grayscale and " +
+            `RGB images are supported (got bit depth ${bitDepth.toString()}, ` +
+            `color type ${colorType.toString()}, interlace ` +
+            `${interlace.toString()}).`,
+        );
+      }
+    } else if (chunkType === "IDAT") {
+      compressedChunks.push(chunkData);
+    } else if (chunkType === "IEND") {
+      break;
+    }
+  }
+  if (channels === undefined) {
+    throw new Error("Unable to decode PNG: missing IHDR chunk.");
+  }
+
+  // Each row of the image is stored as a filter type byte, followed by the
+  // row's (filtered) bytes.
+  const filtered = inflateSync(Buffer.concat(compressedChunks));
+  const rowLength = width * channels;
+  if (filtered.length < (rowLength + 1) * height) {
+    throw new Error("Unable to decode PNG: image data is truncated.");
+  }
+  const pixels = new Uint8Array(rowLength * height);
+  for (let y = 0; y < height; y += 1) {
+    const filterType = filtered[y * (rowLength + 1)];
+    const inStart = y * (rowLength + 1) + 1;
+    const outStart = y * rowLength;
+    const prevStart = outStart - rowLength;
+    for (let x = 0; x < rowLength; x += 1) {
+      const left = x >= channels ? pixels[outStart + x - channels] : 0;
+      const up = y > 0 ? pixels[prevStart + x] : 0;
+      const upLeft =
+        y > 0 && x >= channels ? pixels[prevStart + x - channels] : 0;
+      let predicted: number;
+      switch (filterType) {
+        case 0:
+          predicted = 0;
+          break;
+        case 1:
+          predicted = left;
+          break;
+        case 2:
+          predicted = up;
+          break;
+        case 3:
+          predicted = (left + up) >> 1;
+          break;
+        case 4:
+          predicted = paethPredictor(left, up, upLeft);
+          break;
+        default:
+          throw new Error(
+            `Unable to decode PNG: unknown filter type ${filterType.toString()}.`,
+          );
+      }
+      pixels[outStart + x] = (filtered[inStart + x] + predicted) & 0xff;
+    }
+  }
+  return { width, height, channels, pixels };
+};
@@ -0,0 +1,96 @@
+import { execFile } from "node:child_process";
+import { readFile } from "node:fs/promises";
+import { promisify } from "node:util";
+
+import { PID, ProcessMemoryDetail, ProcessUsageReader } from "./memory-cpu.js";
+
+const execFileAsync = promisify(execFile);
+
+// The value of CLK_TCK on nearly every Linux system, used if it can't be
+// read with 'getconf'.
+const defaultClockTicksPerSecond = 100;
+
+const readClockTicksPerSecond = async (): Promise<number> => {
+  try {
+    const { stdout } = await execFileAsync("getconf", ["CLK_TCK"]);
+    const ticksPerSecond = parseInt(stdout, 10);
+    return ticksPerSecond > 0 ? ticksPerSecond : defaultClockTicksPerSecond;
+  } catch {
+    return defaultClockTicksPerSecond;
+  }
+};
+
+// Reads the memory fields in /proc/<pid>/smaps_rollup, which are given
+// in kB (e.g., "Pss:   1234 kB").
+const memoryDetailForSmapsRollup = (text: string): ProcessMemoryDetail => {
+  const fields = new Map<string, number>();
+  for (const aLine of text.split("\n")) {
+    const match = /^(\w+):\s+(\d+) kB$/.exec(aLine.trim());
+    if (match !== null) {
+      fields.set(match[1], parseInt(match[2], 10) * 1024);
+    }
+  }
+  const field = (name: string) => fields.get(name) ?? 0;
+  return {
+    rss: field("Rss"),
+    pss: field("Pss"),
+    uss: field("Private_Clean") + field("Private_Dirty"),
+    swap: field("Swap"),
+  };
+};
+
+interface StatTimes {
+  // The CPU time the process has used (in user and kernel mode).
+  cpuTicks: number;
+  // When the process started, in ticks since the system booted.
+  startTicks: number;
+}
+
+// Reads the times in /proc/<pid>/stat. The fields are separated by spaces,
+// but the second field (the command name, in parentheses) can include
+// spaces itself, so we count fields from the end of it.
+const timesForStat = (text: string): StatTimes => {
+  const fields = text.slice(text.lastIndexOf(")") + 2).split(" ");
+  // fields[0] is the third field, so utime (the 14th field) is fields[11],
+  // stime is fields[12], and starttime (the 22nd field) is fields[19].
+  return {
+    cpuTicks: parseInt(fields[11], 10) + parseInt(fields[12], 10),
+    startTicks: parseInt(fields[19], 10),
+  };
+};
+
+// Returns a function that reads the memory and CPU use of a process from
+// /proc. The CPU% for a process is the share of a single core it used
+// since it was last read (or, the first time it's read, since it started).
+export const makeProcUsageReader = (): ProcessUsageReader => {
+  // When each process was last read, and the CPU time it had used by
+  // then, both in seconds since the system booted.
+  const prevReads = new Map<PID, { cpuTime: number; time: number }>();
+  let clockTicksPerSecond: Promise<number> | undefined;
+
+  return async (pid) => {
+    clockTicksPerSecond ??= readClockTicksPerSecond();
+    const procDir = `/proc/${pid.toString()}`;
+    const [smapsRollup, stat, uptime, ticksPerSecond] = await Promise.all([
+      readFile(`${procDir}/smaps_rollup`, "utf8"),
+      readFile(`${procDir}/stat`, "utf8"),
+      readFile("/proc/uptime", "utf8"),
+      clockTicksPerSecond,
+    ]);
+
+    const { cpuTicks, startTicks } = timesForStat(stat);
+    const cpuTime = cpuTicks / ticksPerSecond;
+    const now = parseFloat(uptime);
+    const prevRead = prevReads.get(pid) ?? {
+      cpuTime: 0,
+      time: startTicks / ticksPerSecond,
+    };
+    prevReads.set(pid, { cpuTime: cpuTime, time: now });
+    const elapsed = now - prevRead.time;
+    const cpu =
+      elapsed > 0 ? ((cpuTime - prevRead.cpuTime) / elapsed) * 100 : 0;
+
+    const memoryDetail = memoryDetailForSmapsRollup(smapsRollup);
+    return { mem: memoryDetail.pss, cpu: cpu, memoryDetail: memoryDetail };
+  };
+};
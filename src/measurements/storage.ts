@@ -0,0 +1,256 @@
+import { Cookie } from "@playwright/test";
+
+import { BaseMeasurer, MeasurementResult } from "./base.js";
+import { makeTrafficClassifier, Party, TrafficClassifier } from "./classify.js";
+import { MeasurementType } from "../types.js";
+
+type Origin = string;
+
+export interface StorageCookie {
+  name: string;
+  domain: string;
+  path: string;
+  // Whether the cookie is for the same site (i.e., eTLD+1) as the URL
+  // being measured.
+  party: Party | null;
+  // The --tracker-list category the cookie's domain matched, if any.
+  category: string | null;
+  // Unix time in seconds, or null for session cookies.
+  expires: number | null;
+  // Number of seconds from when the measurement was collected until
+  // the cookie expires, or null for session cookies.
+  lifetime: number | null;
+  httpOnly: boolean;
+  secure: boolean;
+  sameSite: Cookie["sameSite"];
+  // The top level site the cookie is partitioned under (i.e., CHIPS), or
+  // null if the cookie isn't partitioned.
+  partitionKey: string | null;
+  // Length of the cookie's name and value.
+  size: number;
+}
+
+export interface CookieCounts {
+  total: number;
+  // Keyed by Party.
+  byParty: Record<string, number>;
+  partitioned: number;
+  session: number;
+}
+
+// The number of entries in a Storage object (i.e., localStorage or
+// sessionStorage), and the size of their keys and values, in bytes (as
+// UTF-16 strings).
+export interface WebStorageUsage {
+  entries: number;
+  bytes: number;
+}
+
+// The storage a single origin used, as seen from the frames (in any page)
+// for that origin. Each value is null if it couldn't be read in the frame
+// (e.g., the browser doesn't support it, or blocked access to it).
+export interface OriginStorage {
+  origin: Origin;
+  party: Party | null;
+  localStorage: WebStorageUsage | null;
+  sessionStorage: WebStorageUsage | null;
+  indexedDB: {
+    databases: {
+      name: string;
+      version: number;
+    }[];
+  } | null;
+  // The browser's estimate of all the storage the origin uses (including
+  // IndexedDB, the Cache API, etc.), in bytes.
+  estimatedUsage: number | null;
+}
+
+// The size of the browser context's storage state, as Playwright would
+// save it to disk (i.e., cookies and localStorage).
+export interface StorageStateFootprint {
+  bytes: number;
+  cookies: number;
+  origins: number;
+  localStorageEntries: number;
+}
+
+// The data recorded by StorageMeasurer.
+export interface StorageMeasurement {
+  cookies: StorageCookie[];
+  cookieCounts: CookieCounts;
+  origins: OriginStorage[];
+  storageState: StorageStateFootprint;
+}
+
+type FrameStorage = Omit<OriginStorage, "party">;
+
+const injected_getFrameStorage = async (): Promise<FrameStorage> => {
+  const webStorageUsage = (
+    getStorage: () => Storage,
+  ): WebStorageUsage | null => {
+    try {
+      const storage = getStorage();
+      let bytes = 0;
+      for (let index = 0; index < storage.length; index += 1) {
+        const key = storage.key(index) ?? "";
+        bytes += (key.length + (storage.getItem(key)?.length ?? 0)) * 2;
+      }
+      return { entries: storage.length, bytes: bytes };
+    } catch {
+      return null;
+    }
+  };
+
+  let indexedDB: FrameStorage["indexedDB"] = null;
+  try {
+    const databases = await window.indexedDB.databases();
+    indexedDB = {
+      databases: databases.map((x) => {
+        return { name: x.name ?? "", version: x.version ?? 0 };
+      }),
+    };
+  } catch {
+    // pass
+  }
+
+  let estimatedUsage: number | null = null;
+  try {
+    estimatedUsage = (await navigator.storage.estimate()).usage ?? null;
+  } catch {
+    // pass
+  }
+
+  return {
+    origin: window.origin,
+    localStorage: webStorageUsage(() => window.localStorage),
+    sessionStorage: webStorageUsage(() => window.sessionStorage),
+    indexedDB: indexedDB,
+    estimatedUsage: estimatedUsage,
+  };
+};
+
+const cookieForPlaywrightCookie = (
+  cookie: Cookie,
+  classifier: TrafficClassifier,
+  now: number,
+): StorageCookie => {
+  const isSession = cookie.expires < 0;
+  const cookieHost = cookie.domain.replace(/^\./, "");
+  return {
+    name: cookie.name,
+    domain: cookie.domain,
+    path: cookie.path,
+    ...classifier(`https://${cookieHost}/`),
+    expires: isSession ? null : cookie.expires,
+    lifetime: isSession ? null : Math.round(cookie.expires - now / 1000),
+    httpOnly: cookie.httpOnly,
+    secure: cookie.secure,
+    sameSite: cookie.sameSite,
+    partitionKey: cookie.partitionKey ?? null,
+    size: cookie.name.length + cookie.value.length,
+  };
+};
+
+const countCookies = (cookies: StorageCookie[]): CookieCounts => {
+  const counts: CookieCounts = {
+    total: cookies.length,
+    byParty: {},
+    partitioned: 0,
+    session: 0,
+  };
+  for (const aCookie of cookies) {
+    if (aCookie.party !== null) {
+      counts.byParty[aCookie.party] = (counts.byParty[aCookie.party] ?? 0) + 1;
+    }
+    if (aCookie.partitionKey !== null) {
+      counts.partitioned += 1;
+    }
+    if (aCookie.expires === null) {
+      counts.session += 1;
+    }
+  }
+  return counts;
+};
+
+export class StorageMeasurer extends BaseMeasurer {
+  readonly type = MeasurementType.Storage;
+
+  async #collectOrigins(classifier: TrafficClassifier) {
+    const origins = new Map<Origin, OriginStorage>();
+    for (const aPage of this.context.pages()) {
+      for (const aFrame of aPage.frames()) {
+        const frameURL = aFrame.url();
+        if (!frameURL.startsWith("http")) {
+          this.logVerbose(
+            "Not fetching storage for non-public URL: ",
+            frameURL,
+          );
+          continue;
+        }
+        try {
+          const frameStorage = await aFrame.evaluate(injected_getFrameStorage);
+          // Frames for the same origin see the same storage, so we only
+          // record each origin once.
+          if (origins.has(frameStorage.origin)) {
+            continue;
+          }
+          origins.set(frameStorage.origin, {
+            ...frameStorage,
+            party: classifier(frameStorage.origin).party,
+          });
+        } catch (err: unknown) {
+          this.logError(
+            `Unable to read storage for frame "${frameURL}": `,
+            err,
+          );
+        }
+      }
+    }
+    return Array.from(origins.values());
+  }
+
+  async #collectStorageState(): Promise<StorageStateFootprint> {
+    const storageState = await this.context.storageState();
+    const localStorageEntries = storageState.origins
+      .map((x) => x.localStorage.length)
+      .reduce((total, x) => total + x, 0);
+    return {
+      bytes: new Blob([JSON.stringify(storageState)]).size,
+      cookies: storageState.cookies.length,
+      origins: storageState.origins.length,
+      localStorageEntries: localStorageEntries,
+    };
+  }
+
+  async collect(): Promise<MeasurementResult<StorageMeasurement> | null> {
+    if (this.isContextClosed) {
+      this.logInfo("Tried to collect results from a closed browser context");
+      return null;
+    }
+
+    const { trackerList, url } = this.runConfig;
+    const classifier = makeTrafficClassifier(url, trackerList?.categories);
+
+    this.logInfo("fetching cookies");
+    const now = Date.now();
+    const cookies = (await this.context.cookies()).map((x) => {
+      return cookieForPlaywrightCookie(x, classifier, now);
+    });
+
+    this.logInfo("fetching storage for each frame");
+    const origins = await this.#collectOrigins(classifier);
+
+    this.logInfo("fetching storage state");
+    const storageState = await this.#collectStorageState();
+
+    return {
+      type: this.type,
+      data: {
+        cookies: cookies,
+        cookieCounts: countCookies(cookies),
+        origins: origins,
+        storageState: storageState,
+      },
+    };
+  }
+}
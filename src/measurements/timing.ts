@@ -1,36 +1,430 @@
+import { setTimeout } from "node:timers/promises";
+
+import { BrowserContext, Page } from "@playwright/test";
+
 import { BaseMeasurer, MeasurementResult } from "./base.js";
-import { MeasurementType, Serializable } from "../types.js";
+import { makeTrafficClassifier, TrafficClassifier } from "./classify.js";
+import {
+  LongAnimationFrameEntry,
+  LongTaskEntry,
+  MainThreadMeasurement,
+  summarizeMainThread,
+} from "./main-thread.js";
+import { MeasurementType } from "../types.js";
+
+// The JSON form of a PerformanceEntry (e.g., PerformanceNavigationTiming),
+// which includes the fields common to all entries, and the fields
+// specific to each entry type.
+export interface PerformanceEntryJSON {
+  name: string;
+  entryType: string;
+  startTime: number;
+  duration: number;
+  [key: string]: unknown;
+}
+
+// A single timing metric for a page. If the metric couldn't be recorded
+// (e.g., the browser doesn't support the needed performance entries), the
+// value is null, and the reason describes why.
+export interface TimingMetric {
+  value: number | null;
+  reason: string | null;
+}
 
-const injected_getPageMeasurements = (): Promise<Serializable> => {
-  return new Promise((resolve) => {
-    const navEntries = window.performance.getEntriesByType("navigation")[0];
+// All times are in milliseconds, relative to the start of the navigation.
+export interface TimingMetrics {
+  // First Contentful Paint.
+  fcp: TimingMetric;
+  // Largest Contentful Paint.
+  lcp: TimingMetric;
+  // Cumulative Layout Shift (a unitless score, not a time).
+  cls: TimingMetric;
+  // Interaction to Next Paint (based on event timing entries).
+  inp: TimingMetric;
+  // Time to First Byte (i.e., the navigation's responseStart).
+  ttfb: TimingMetric;
+  domContentLoaded: TimingMetric;
+  load: TimingMetric;
+}
+
+export interface TimingPageMeasurement {
+  url: string;
+  data: {
+    // Null if the entries weren't available.
+    navigation: PerformanceEntryJSON | null;
+    lcp: PerformanceEntryJSON | null;
+    metrics: TimingMetrics;
+    // Null if the timing data couldn't be read from the page (or for
+    // reports before schema version 8).
+    mainThread: MainThreadMeasurement | null;
+  };
+}
+
+// The data recorded by TimingMeasurer.
+export type TimingMeasurement = TimingPageMeasurement[];
+
+// The layout shifts that count toward CLS (i.e., that weren't right after
+// user input).
+interface LayoutShift {
+  startTime: number;
+  value: number;
+}
 
+// When an interaction started, and its longest event duration.
+interface Interaction {
+  startTime: number;
+  duration: number;
+}
+
+// What the observers installed in each page have recorded so far.
+interface ObservedTimings {
+  fcp: number | null;
+  lcp: PerformanceEntryJSON | null;
+  layoutShifts: LayoutShift[];
+  // Keyed by interaction id.
+  interactions: Record<string, Interaction>;
+  longTasks: LongTaskEntry[];
+  longAnimationFrames: LongAnimationFrameEntry[];
+}
+
+interface PageTimingData {
+  // When the page's performance timeline starts, in milliseconds since the
+  // epoch.
+  timeOrigin: number;
+  navigation: PerformanceEntryJSON | null;
+  observed: ObservedTimings | null;
+  supportedEntryTypes: string[];
+}
+
+// Added to each page as an init script, so that the observers are installed
+// before the page starts loading. Note that this function is serialized
+// and run in the page, so it can't refer to anything outside of itself.
+const injected_installTimingObservers = () => {
+  interface LayoutShiftEntry extends PerformanceEntry {
+    hadRecentInput: boolean;
+    value: number;
+  }
+  interface LongAnimationFrameTiming extends PerformanceEntry {
+    blockingDuration: number;
+    scripts: { sourceURL: string; duration: number }[];
+  }
+
+  const observed: ObservedTimings = {
+    fcp: null,
+    lcp: null,
+    layoutShifts: [],
+    interactions: {},
+    longTasks: [],
+    longAnimationFrames: [],
+  };
+  Object.defineProperty(window, "__perfObservedTimings", { value: observed });
+
+  // The "durationThreshold" option is only used for "event" entries.
+  type ObserveOptions = PerformanceObserverInit & {
+    durationThreshold?: number;
+  };
+  const observe = (
+    type: string,
+    callback: (entries: PerformanceEntryList) => void,
+    options: ObserveOptions = {},
+  ) => {
+    if (!PerformanceObserver.supportedEntryTypes.includes(type)) {
+      return;
+    }
     const observer = new PerformanceObserver((list) => {
-      const entries = list.getEntries();
-      const lastLCPEntry = entries[entries.length - 1];
-      resolve({
-        navigation: navEntries.toJSON() as unknown,
-        lcp: lastLCPEntry.toJSON() as unknown,
-      });
+      callback(list.getEntries());
     });
+    observer.observe({ type: type, buffered: true, ...options });
+  };
 
-    observer.observe({
-      type: "largest-contentful-paint",
-      buffered: true,
-    });
+  observe("paint", (entries) => {
+    for (const anEntry of entries) {
+      if (anEntry.name === "first-contentful-paint") {
+        observed.fcp = anEntry.startTime;
+      }
+    }
+  });
+
+  observe("largest-contentful-paint", (entries) => {
+    const lastEntry = entries.at(-1);
+    if (lastEntry !== undefined) {
+      observed.lcp = lastEntry.toJSON() as PerformanceEntryJSON;
+    }
+  });
+
+  observe("layout-shift", (entries) => {
+    for (const anEntry of entries as LayoutShiftEntry[]) {
+      if (anEntry.hadRecentInput) {
+        continue;
+      }
+      observed.layoutShifts.push({
+        startTime: anEntry.startTime,
+        value: anEntry.value,
+      });
+    }
+  });
+
+  const recordInteractions = (entries: PerformanceEntryList) => {
+    for (const anEntry of entries as PerformanceEventTiming[]) {
+      if (!anEntry.interactionId) {
+        continue;
+      }
+      const key = anEntry.interactionId.toString();
+      const prevInteraction = observed.interactions[key] as
+        | Interaction
+        | undefined;
+      observed.interactions[key] = {
+        startTime: Math.min(
+          prevInteraction?.startTime ?? anEntry.startTime,
+          anEntry.startTime,
+        ),
+        duration: Math.max(prevInteraction?.duration ?? 0, anEntry.duration),
+      };
+    }
+  };
+  observe("event", recordInteractions, { durationThreshold: 16 });
+  observe("first-input", recordInteractions);
+
+  observe("longtask", (entries) => {
+    for (const anEntry of entries) {
+      observed.longTasks.push({
+        startTime: anEntry.startTime,
+        duration: anEntry.duration,
+      });
+    }
+  });
+
+  observe("long-animation-frame", (entries) => {
+    for (const anEntry of entries as LongAnimationFrameTiming[]) {
+      observed.longAnimationFrames.push({
+        startTime: anEntry.startTime,
+        duration: anEntry.duration,
+        blockingDuration: anEntry.blockingDuration,
+        scripts: anEntry.scripts.map((x) => {
+          return { sourceURL: x.sourceURL, duration: x.duration };
+        }),
+      });
+    }
   });
 };
 
+const injected_getPageTimingData = (): PageTimingData => {
+  const navEntry = window.performance.getEntriesByType("navigation").at(0);
+  const observed = (window as unknown as Record<string, unknown>)
+    .__perfObservedTimings as ObservedTimings | undefined;
+  return {
+    timeOrigin: window.performance.timeOrigin,
+    navigation: navEntry ? (navEntry.toJSON() as PerformanceEntryJSON) : null,
+    observed: observed ? structuredClone(observed) : null,
+    supportedEntryTypes: [...PerformanceObserver.supportedEntryTypes],
+  };
+};
+
+const metricValue = (value: number): TimingMetric => {
+  return { value: value, reason: null };
+};
+
+const missingMetric = (reason: string): TimingMetric => {
+  return { value: null, reason: reason };
+};
+
+// CLS is the largest sum of layout shifts in any "session window" (i.e.,
+// shifts less than 1 second apart, in a window of at most 5 seconds).
+const clsForLayoutShifts = (layoutShifts: LayoutShift[]): number => {
+  let cls = 0;
+  let sessionValue = 0;
+  let sessionStart = 0;
+  let sessionEnd = 0;
+  for (const aShift of layoutShifts) {
+    const isInSession =
+      sessionValue > 0 &&
+      aShift.startTime - sessionEnd < 1000 &&
+      aShift.startTime - sessionStart < 5000;
+    if (isInSession) {
+      sessionValue += aShift.value;
+    } else {
+      sessionValue = aShift.value;
+      sessionStart = aShift.startTime;
+    }
+    sessionEnd = aShift.startTime;
+    cls = Math.max(cls, sessionValue);
+  }
+  return cls;
+};
+
+// INP is (approximately) the 98th percentile of interaction durations, i.e.,
+// the longest interaction, ignoring one for every 50 interactions.
+const inpForInteractions = (interactions: Interaction[]): number => {
+  const durations = interactions.map((x) => x.duration).sort((a, b) => b - a);
+  const index = Math.min(
+    durations.length - 1,
+    Math.floor(durations.length / 50),
+  );
+  return durations[index];
+};
+
+const missingMetrics = (reason: string): TimingMetrics => {
+  return {
+    fcp: missingMetric(reason),
+    lcp: missingMetric(reason),
+    cls: missingMetric(reason),
+    inp: missingMetric(reason),
+    ttfb: missingMetric(reason),
+    domContentLoaded: missingMetric(reason),
+    load: missingMetric(reason),
+  };
+};
+
+// Builds the metrics for a page from the data read from it, describing
+// why each metric that isn't available is missing.
+const metricsForTimingData = (timingData: PageTimingData): TimingMetrics => {
+  const { navigation, observed, supportedEntryTypes } = timingData;
+
+  const observedMetric = (
+    entryType: string,
+    getValue: (observed: ObservedTimings) => number | null,
+    missingReason: string,
+  ): TimingMetric => {
+    if (!supportedEntryTypes.includes(entryType)) {
+      return missingMetric(
+        `The browser doesn't support "${entryType}" performance entries.`,
+      );
+    }
+    if (observed === null) {
+      return missingMetric(
+        "The timing observers weren't installed in the page.",
+      );
+    }
+    const value = getValue(observed);
+    return value === null ? missingMetric(missingReason) : metricValue(value);
+  };
+
+  const navigationMetric = (name: string): TimingMetric => {
+    if (navigation === null) {
+      return missingMetric("The browser didn't record a navigation entry.");
+    }
+    const value = navigation[name];
+    // Navigation timings are 0 if the event hasn't happened yet.
+    if (typeof value !== "number" || value <= 0) {
+      return missingMetric(`The page hadn't reached "${name}".`);
+    }
+    return metricValue(value);
+  };
+
+  return {
+    fcp: observedMetric(
+      "paint",
+      (x) => x.fcp,
+      "The page didn't have a first contentful paint.",
+    ),
+    lcp: observedMetric(
+      "largest-contentful-paint",
+      (x) => x.lcp?.startTime ?? null,
+      "The page didn't have a largest contentful paint.",
+    ),
+    cls: observedMetric(
+      "layout-shift",
+      (x) => clsForLayoutShifts(x.layoutShifts),
+      "The page didn't record any layout shifts.",
+    ),
+    inp: observedMetric(
+      "event",
+      (x) => {
+        const interactions = Object.values(x.interactions);
+        return interactions.length > 0
+          ? inpForInteractions(interactions)
+          : null;
+      },
+      "There were no interactions with the page.",
+    ),
+    ttfb: navigationMetric("responseStart"),
+    domContentLoaded: navigationMetric("domContentLoadedEventEnd"),
+    load: navigationMetric("loadEventEnd"),
+  };
+};
+
+const mainThreadForTimingData = (
+  timingData: PageTimingData,
+  classifier: TrafficClassifier,
+): MainThreadMeasurement | null => {
+  const { observed, supportedEntryTypes } = timingData;
+  if (observed === null) {
+    return null;
+  }
+  return summarizeMainThread(
+    observed.longTasks,
+    observed.longAnimationFrames,
+    supportedEntryTypes,
+    classifier,
+  );
+};
+
+// Drops the entries the observers recorded after the measurement was closed
+// (e.g., while waiting for events to drain), since the entries are only read
+// once every measurer has been closed. The LCP and FCP entries are kept,
+// since they're only replaced by entries for later (larger) paints.
+const timingDataBefore = (
+  timingData: PageTimingData,
+  closedAt: Date,
+): PageTimingData => {
+  const { observed, timeOrigin } = timingData;
+  if (observed === null) {
+    return timingData;
+  }
+  const cutoff = closedAt.getTime() - timeOrigin;
+  const isBefore = (x: { startTime: number }) => x.startTime <= cutoff;
+  return {
+    ...timingData,
+    observed: {
+      ...observed,
+      layoutShifts: observed.layoutShifts.filter(isBefore),
+      interactions: Object.fromEntries(
+        Object.entries(observed.interactions).filter(([, x]) => isBefore(x)),
+      ),
+      longTasks: observed.longTasks.filter(isBefore),
+      longAnimationFrames: observed.longAnimationFrames.filter(isBefore),
+    },
+  };
+};
+
+// Init scripts can't be removed from a context, so the observers are only
+// added once to each context, even if more than one load of the page is
+// measured in it (e.g., with a cold and then a warm cache).
+const contextsWithObservers = new WeakSet<BrowserContext>();
+
 export class TimingMeasurer extends BaseMeasurer {
   readonly type = MeasurementType.Timing;
 
-  async collect(): Promise<MeasurementResult | null> {
+  async beforeStart(): Promise<undefined> {
+    if (contextsWithObservers.has(this.context)) {
+      return;
+    }
+    contextsWithObservers.add(this.context);
+    await this.context.addInitScript(injected_installTimingObservers);
+  }
+
+  // Reads the timing data from the page, giving up after the run config's
+  // timeout (e.g., if the page's main thread is stuck), in which case
+  // null is returned.
+  async #readTimingData(page: Page): Promise<PageTimingData | null> {
+    const timeoutMs = this.runConfig.timeout * 1000;
+    const timedOut = setTimeout(timeoutMs, null, { ref: false });
+    return await Promise.race([
+      page.evaluate(injected_getPageTimingData),
+      timedOut,
+    ]);
+  }
+
+  async collect(): Promise<MeasurementResult<TimingMeasurement> | null> {
     if (this.isContextClosed) {
       this.logInfo("Tried to collect results from a closed browser context");
       return null;
     }
 
-    const timingMeasurements = [];
+    const { trackerList, url } = this.runConfig;
+    const classifier = makeTrafficClassifier(url, trackerList?.categories);
+
+    const timingMeasurements: TimingMeasurement = [];
     for (const aPage of this.context.pages()) {
       const pageURL = aPage.url();
       if (!pageURL.startsWith("http")) {
@@ -39,12 +433,39 @@ export class TimingMeasurer extends BaseMeasurer {
       }
 
       this.logInfo("fetching timing information for page url=", pageURL);
-      const pageResponse = await aPage.evaluate(injected_getPageMeasurements);
-      const timingData = {
+      let timingData: PageTimingData | null = null;
+      try {
+        timingData = await this.#readTimingData(aPage);
+      } catch (err: unknown) {
+        this.logError("Unable to read timing data: ", err);
+      }
+      if (timingData !== null && this.closedAt !== undefined) {
+        timingData = timingDataBefore(timingData, this.closedAt);
+      }
+      if (timingData === null) {
+        const reason = "Unable to read timing data from the page.";
+        this.logError(reason, " url=", pageURL);
+        timingMeasurements.push({
+          url: pageURL,
+          data: {
+            navigation: null,
+            lcp: null,
+            metrics: missingMetrics(reason),
+            mainThread: null,
+          },
+        });
+        continue;
+      }
+
+      timingMeasurements.push({
         url: pageURL,
-        data: pageResponse,
-      };
-      timingMeasurements.push(timingData);
+        data: {
+          navigation: timingData.navigation,
+          lcp: timingData.observed?.lcp ?? null,
+          metrics: metricsForTimingData(timingData),
+          mainThread: mainThreadForTimingData(timingData, classifier),
+        },
+      });
     }
 
     return {
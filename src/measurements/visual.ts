@@ -0,0 +1,257 @@
+import { writeFile } from "node:fs/promises";
+import { setTimeout } from "node:timers/promises";
+
+import { Page } from "@playwright/test";
+
+import { BaseMeasurer, MeasurementResult } from "./base.js";
+import { decodePNG } from "./png.js";
+import { artifactPath } from "../config.js";
+import { MeasurementType, Path } from "../types.js";
+
+export interface VisualFrame {
+  // Milliseconds since the page was opened (i.e., just before it was
+  // navigated to the measured URL).
+  time: number;
+  // How visually complete the page was in this frame, as a percentage
+  // (0-100) of the way from the first frame to the last frame.
+  completeness: number;
+  // The screenshot, written alongside the report.
+  path: Path;
+}
+
+export interface VisualPageMeasurement {
+  url: string;
+  // When the page was opened, in milliseconds since the epoch.
+  start: number;
+  // Each frame that looked different from the frame before it, in order.
+  frames: VisualFrame[];
+  // The following are in milliseconds since the page was opened. The
+  // visual change times are null if the page never changed, and all of
+  // them are null if no frames were captured.
+  firstVisualChange: number | null;
+  lastVisualChange: number | null;
+  // When the page first looked the way it did at the end of the
+  // measurement.
+  visuallyComplete: number | null;
+  // The average time at which the page was displayed, weighted by how
+  // incomplete it was until then (i.e., the area above the visual
+  // completeness curve).
+  speedIndex: number | null;
+}
+
+// The data recorded by VisualMeasurer.
+export type VisualMeasurement = VisualPageMeasurement[];
+
+interface CapturedFrame {
+  time: number;
+  image: Buffer;
+}
+
+interface PageCapturer {
+  page: Page;
+  start: number;
+  frames: CapturedFrame[];
+  // Resolves once the page stops being captured.
+  done: Promise<void>;
+}
+
+// Pixels this close to white are left out of the histograms, so that a
+// page's (usually white) background doesn't count as progress.
+const whiteThreshold = 250;
+
+// Counts how many non-white pixels in the image have each value, for each
+// of the red, green and blue channels.
+const histogramFor = (image: Buffer): Uint32Array => {
+  const { channels, pixels } = decodePNG(image);
+  const histogram = new Uint32Array(3 * 256);
+  for (let i = 0; i < pixels.length; i += channels) {
+    // Grayscale images have the same value in every channel.
+    const red = pixels[i];
+    const green = channels >= 3 ? pixels[i + 1] : red;
+    const blue = channels >= 3 ? pixels[i + 2] : red;
+    if (
+      red > whiteThreshold &&
+      green > whiteThreshold &&
+      blue > whiteThreshold
+    ) {
+      continue;
+    }
+    histogram[red] += 1;
+    histogram[256 + green] += 1;
+    histogram[512 + blue] += 1;
+  }
+  return histogram;
+};
+
+const histogramDistance = (a: Uint32Array, b: Uint32Array): number => {
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 1) {
+    distance += Math.abs(a[i] - b[i]);
+  }
+  return distance;
+};
+
+// Computes how visually complete each frame is, the way WebPageTest does:
+// by how much closer the frame's color histogram is to the last frame's
+// than the first frame's was, rounded to a whole percentage.
+const completenessForHistograms = (histograms: Uint32Array[]): number[] => {
+  const first = histograms[0];
+  const last = histograms[histograms.length - 1];
+  const total = histogramDistance(first, last);
+  return histograms.map((aHistogram) => {
+    const distance = histogramDistance(aHistogram, last);
+    if (total === 0) {
+      return distance === 0 ? 100 : 0;
+    }
+    const completeness = Math.round(100 * (1 - distance / total));
+    return Math.min(Math.max(completeness, 0), 100);
+  });
+};
+
+type VisualMetrics = Pick<
+  VisualPageMeasurement,
+  "firstVisualChange" | "lastVisualChange" | "visuallyComplete" | "speedIndex"
+>;
+
+const visualMetricsFor = (frames: VisualFrame[]): VisualMetrics => {
+  if (frames.length === 0) {
+    return {
+      firstVisualChange: null,
+      lastVisualChange: null,
+      visuallyComplete: null,
+      speedIndex: null,
+    };
+  }
+  // The page is treated as blank until the first frame, and as looking
+  // like each frame until the next one.
+  let speedIndex = frames[0].time;
+  for (let i = 1; i < frames.length; i += 1) {
+    const duration = frames[i].time - frames[i - 1].time;
+    speedIndex += duration * (1 - frames[i - 1].completeness / 100);
+  }
+  // The last frame is always 100% complete, so one is always found.
+  const completeFrame = frames.find((x) => x.completeness === 100);
+  const hasChanged = frames.length > 1;
+  return {
+    firstVisualChange: hasChanged ? frames[1].time : null,
+    lastVisualChange: hasChanged ? frames[frames.length - 1].time : null,
+    visuallyComplete: completeFrame?.time ?? null,
+    speedIndex: Math.round(speedIndex),
+  };
+};
+
+// Takes a screenshot of each page every intervalMs during the measurement
+// (a "filmstrip"), and computes how quickly each page became visually
+// complete from them. Screenshots are taken through Playwright, so this
+// works in every browser, but taking them adds work for the browser while
+// the page loads. The screenshots are only decoded and written to disk
+// once the measurement has ended.
+export class VisualMeasurer extends BaseMeasurer {
+  // How often to capture a frame for each page.
+  static intervalMs = 100;
+
+  readonly type = MeasurementType.Visual;
+  readonly #capturers: PageCapturer[] = [];
+
+  instrumentContext() {
+    super.instrumentContext();
+    this.onPage((page) => {
+      const start = Date.now();
+      const frames: CapturedFrame[] = [];
+      this.#capturers.push({
+        page: page,
+        start: start,
+        frames: frames,
+        done: this.#capturePage(page, start, frames),
+      });
+    });
+  }
+
+  // Captures frames of the page until the measurement is closed (or the
+  // page is), waiting for each screenshot to be returned before starting
+  // the next interval. Frames identical to the previous frame are dropped.
+  async #capturePage(page: Page, start: number, frames: CapturedFrame[]) {
+    const timeoutMs = this.runConfig.timeout * 1000;
+    while (this.closedAt === undefined && !page.isClosed()) {
+      // Frames are timed from when the screenshot was requested.
+      const time = Date.now() - start;
+      try {
+        const image = await page.screenshot({ timeout: timeoutMs });
+        const prevImage = frames.at(-1)?.image;
+        if (prevImage === undefined || !image.equals(prevImage)) {
+          frames.push({ time: time, image: image });
+        }
+      } catch (err: unknown) {
+        if (page.isClosed()) {
+          break;
+        }
+        this.logVerbose("Unable to capture frame for page: ", err);
+      }
+      await setTimeout(VisualMeasurer.intervalMs, undefined, {
+        ref: false,
+      });
+    }
+  }
+
+  // Writes the page's frames alongside the report (e.g.,
+  // "example.com.page-1.frame-0001.png"), and measures its visual progress.
+  async #measurePage(
+    capturer: PageCapturer,
+    pageNumber: number,
+  ): Promise<VisualPageMeasurement> {
+    const capturedFrames: CapturedFrame[] = [];
+    const histograms: Uint32Array[] = [];
+    for (const aFrame of capturer.frames) {
+      try {
+        histograms.push(histogramFor(aFrame.image));
+        capturedFrames.push(aFrame);
+      } catch (err: unknown) {
+        this.logError("Unable to read captured frame: ", err);
+      }
+    }
+    const completeness = completenessForHistograms(histograms);
+
+    const frames: VisualFrame[] = [];
+    for (const [index, aFrame] of capturedFrames.entries()) {
+      const frameNumber = (index + 1).toString().padStart(4, "0");
+      const suffix = `page-${pageNumber.toString()}.frame-${frameNumber}.png`;
+      const path = artifactPath(this.runConfig, suffix);
+      await writeFile(path, aFrame.image);
+      frames.push({
+        time: aFrame.time,
+        completeness: completeness[index],
+        path: path,
+      });
+    }
+    this.logVerbose(
+      `Wrote ${frames.length.toString()} frames for page ` +
+        pageNumber.toString(),
+    );
+    return {
+      url: capturer.page.url(),
+      start: capturer.start,
+      frames: frames,
+      ...visualMetricsFor(frames),
+    };
+  }
+
+  async collect(): Promise<MeasurementResult<VisualMeasurement> | null> {
+    await Promise.all(this.#capturers.map((x) => x.done));
+
+    const visualMeasurements: VisualMeasurement = [];
+    for (const aCapturer of this.#capturers) {
+      const pageURL = aCapturer.page.url();
+      if (!pageURL.startsWith("http")) {
+        this.logVerbose("Not recording frames for non-public URL: ", pageURL);
+        continue;
+      }
+      const pageNumber = visualMeasurements.length + 1;
+      visualMeasurements.push(await this.#measurePage(aCapturer, pageNumber));
+    }
+
+    return {
+      type: this.type,
+      data: visualMeasurements,
+    };
+  }
+}
@@ -0,0 +1,105 @@
+import { BrowserContext, Page } from "@playwright/test";
+
+import { Logger } from "./logging.js";
+import {
+  AppliedNetworkProfile,
+  BrowserType,
+  NetworkConditions,
+  NetworkEmulationMethod,
+  NetworkProfileName,
+  RunConfig,
+} from "./types.js";
+
+type NetworkProfilePreset = Exclude<
+  NetworkProfileName,
+  NetworkProfileName.Custom
+>;
+
+// Based on the presets in Chrome DevTools (for the 3G and "fast-4g"
+// profiles), Lighthouse's mobile throttling (for "slow-4g"), and
+// WebPageTest (for "cable").
+export const networkProfilePresets: Record<
+  NetworkProfilePreset,
+  NetworkConditions
+> = {
+  [NetworkProfileName.Slow3G]: { latency: 2000, download: 400, upload: 400 },
+  [NetworkProfileName.Fast3G]: { latency: 563, download: 1440, upload: 675 },
+  [NetworkProfileName.Slow4G]: { latency: 150, download: 1600, upload: 750 },
+  [NetworkProfileName.Fast4G]: { latency: 165, download: 9000, upload: 1500 },
+  [NetworkProfileName.Cable]: { latency: 28, download: 5000, upload: 1000 },
+};
+
+const isChromiumBrowser = (browser: BrowserType): boolean => {
+  return browser === BrowserType.Chromium || browser === BrowserType.Brave;
+};
+
+// Chromium browsers emulate network conditions themselves (through CDP),
+// and other browsers send their traffic through a throttling proxy.
+export const networkEmulationMethodFor = (
+  browser: BrowserType,
+): NetworkEmulationMethod => {
+  return isChromiumBrowser(browser)
+    ? NetworkEmulationMethod.CDP
+    : NetworkEmulationMethod.Proxy;
+};
+
+// Describes the network conditions emulated for a run config, for including
+// in the report.
+export const appliedNetworkProfile = (
+  runConfig: RunConfig,
+): AppliedNetworkProfile | null => {
+  const { browser, networkProfile } = runConfig;
+  if (networkProfile === undefined) {
+    return null;
+  }
+  return { ...networkProfile, method: networkEmulationMethodFor(browser) };
+};
+
+const bytesPerSecondForKbps = (kbps: number): number => {
+  return (kbps * 1000) / 8;
+};
+
+const emulateInPage = async (
+  context: BrowserContext,
+  page: Page,
+  conditions: NetworkConditions,
+) => {
+  // Chromium clears the emulated conditions when the session that set them
+  // is detached, so the session is left open for the life of the page.
+  const session = await context.newCDPSession(page);
+  await session.send("Network.emulateNetworkConditions", {
+    offline: false,
+    latency: conditions.latency,
+    downloadThroughput: bytesPerSecondForKbps(conditions.download),
+    uploadThroughput: bytesPerSecondForKbps(conditions.upload),
+  });
+};
+
+// For Chromium browsers, emulates the run config's network profile (if any)
+// in the page, and in any popups it opens. Note that this has to be called
+// after any calls to BrowserContext.setOffline(), since Playwright resets
+// the emulated conditions when going on or offline. Also, out-of-process
+// iframes are separate CDP targets, so their requests aren't throttled.
+export const emulateNetworkProfile = async (
+  logger: Logger,
+  context: BrowserContext,
+  page: Page,
+  runConfig: RunConfig,
+): Promise<void> => {
+  const { browser, networkProfile } = runConfig;
+  if (networkProfile === undefined || !isChromiumBrowser(browser)) {
+    return;
+  }
+
+  const log = logger.prefixedLogger("emulateNetworkProfile(): ");
+  log.verbose(`Emulating network profile "${networkProfile.name}"`);
+  const emulateInPageAndPopups = async (aPage: Page) => {
+    aPage.on("popup", (popup) => {
+      emulateInPageAndPopups(popup).catch((err: unknown) => {
+        log.error("Unable to emulate network conditions in popup: ", err);
+      });
+    });
+    await emulateInPage(context, aPage, networkProfile);
+  };
+  await emulateInPageAndPopups(page);
+};
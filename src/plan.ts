@@ -0,0 +1,447 @@
+import { readFile, writeFile } from "node:fs/promises";
+
+import { Namespace } from "argparse";
+
+import {
+  assertIsMeasurableURL,
+  makeTempDir,
+  makeUniqueFilename,
+  parseRunConfigValues,
+  runConfigForArgs,
+  toSafeFilename,
+} from "./config.js";
+import { Logger } from "./logging.js";
+import { discardReport, measureRunConfig, writeReport } from "./measure.js";
+import {
+  Path,
+  PlanCellTag,
+  PlanOrder,
+  RunConfig,
+  RunConfigValues,
+} from "./types.js";
+
+// Function that turns run config values into the arguments runConfigForArgs()
+// expects (i.e., filling in the defaults for any CLI arguments that
+// aren't set in the values).
+export type ArgsForValuesFunc = (values: RunConfigValues) => Namespace;
+
+interface PlanBrowser {
+  name: string;
+  values: RunConfigValues;
+}
+
+export interface Plan {
+  path: Path;
+  browsers: PlanBrowser[];
+  urls: string[];
+  order: PlanOrder;
+  rounds: number;
+  seed: number;
+  // Run config values shared by all browsers in the plan (each browser's
+  // values take precedence over these).
+  settings: RunConfigValues;
+  warmups: number;
+}
+
+interface PlanRun {
+  browser: PlanBrowser;
+  url: string;
+  round: number;
+  warmup: boolean;
+}
+
+export interface PlanRunResult {
+  cell: PlanCellTag;
+  warmup: boolean;
+  start: Date;
+  end: Date;
+  // Path to the report for this run (only set for measured, successful runs).
+  output?: Path;
+  // Description of why this run failed (only set if it failed).
+  error?: string;
+}
+
+const isPositiveInt = (value: unknown): value is number => {
+  return Number.isInteger(value) && (value as number) > 0;
+};
+
+// Reads and checks the structure of a plan file. The plan file is JSON
+// in the following format (only "browsers" and "urls" are required):
+// {
+//   "browsers": [{"name": "brave", "browser": "brave", "binary": "..."}, ...],
+//   "urls": ["https://example.org", ...],
+//   "order": "sequential" | "random" | "counterbalanced",
+//   "rounds": 3,
+//   "seed": 1234,
+//   "settings": {"seconds": 30, "measurements": ["network"]},
+//   "warmups": 1
+// }
+// where each entry in "browsers", and "settings", can contain any of
+// the values in RunConfigValues.
+export const loadPlan = async (path: Path): Promise<Plan> => {
+  let planData: unknown;
+  try {
+    planData = JSON.parse(await readFile(path, "utf8"));
+  } catch (err: unknown) {
+    throw new Error(
+      `Unable to read plan file "${path}": ` + (err as Error).toString(),
+    );
+  }
+
+  const source = `plan file "${path}"`;
+  if (typeof planData !== "object" || planData === null) {
+    throw new Error(`Expected a JSON object in ${source}.`);
+  }
+  const rawPlan = planData as Record<string, unknown>;
+
+  const { browsers, urls } = rawPlan;
+  if (!Array.isArray(browsers) || browsers.length === 0) {
+    throw new Error(`"browsers" in ${source} must be a non-empty array.`);
+  }
+  if (
+    !Array.isArray(urls) ||
+    urls.length === 0 ||
+    !urls.every((x) => typeof x === "string")
+  ) {
+    throw new Error(`"urls" in ${source} must be a non-empty array of URLs.`);
+  }
+
+  const planBrowsers: PlanBrowser[] = [];
+  const browserNames = new Set<string>();
+  for (const [index, aBrowser] of browsers.entries()) {
+    const browserSource = `"browsers[${index.toString()}]" in ${source}`;
+    if (typeof aBrowser !== "object" || aBrowser === null) {
+      throw new Error(`Expected an object for ${browserSource}.`);
+    }
+    const { name, ...rawValues } = aBrowser as Record<string, unknown>;
+    const values = parseRunConfigValues(rawValues, browserSource);
+    const browserName = name ?? values.browser;
+    if (typeof browserName !== "string" || browserName.length === 0) {
+      throw new Error(
+        `Must provide a "name" or "browser" for ${browserSource}.`,
+      );
+    }
+    if (browserNames.has(browserName)) {
+      throw new Error(
+        `Duplicate browser name "${browserName}" in ${source}. Each entry ` +
+          'in "browsers" must have a unique "name".',
+      );
+    }
+    browserNames.add(browserName);
+    planBrowsers.push({ name: browserName, values });
+  }
+
+  const order = rawPlan.order ?? PlanOrder.Random;
+  if (!Object.values(PlanOrder).includes(order as PlanOrder)) {
+    throw new Error(
+      `"order" in ${source} must be one of: ` +
+        Object.values(PlanOrder).join(", "),
+    );
+  }
+
+  const rounds = rawPlan.rounds ?? 1;
+  if (!isPositiveInt(rounds)) {
+    throw new Error(`"rounds" in ${source} must be a positive integer.`);
+  }
+
+  const warmups = rawPlan.warmups ?? 0;
+  if (!Number.isInteger(warmups) || (warmups as number) < 0) {
+    throw new Error(`"warmups" in ${source} must be a non-negative integer.`);
+  }
+
+  const seed = rawPlan.seed ?? Date.now() % 2 ** 32;
+  if (!Number.isInteger(seed)) {
+    throw new Error(`"seed" in ${source} must be an integer.`);
+  }
+
+  const settings = parseRunConfigValues(
+    rawPlan.settings ?? {},
+    `"settings" in ${source}`,
+  );
+
+  return {
+    browsers: planBrowsers,
+    order: order as PlanOrder,
+    path: path,
+    rounds: rounds,
+    seed: seed as number,
+    settings: settings,
+    urls: urls,
+    warmups: warmups as number,
+  };
+};
+
+// Small, seedable pseudo-random number generator (mulberry32), so that the
+// order of a randomized plan can be reproduced from its seed. Returns
+// a function that returns numbers in [0, 1).
+const makeRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 2 ** 32;
+  };
+};
+
+const shuffle = <T>(items: T[], random: () => number): T[] => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i -= 1) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+// Expand a plan into the ordered list of runs to perform. Each cell in the
+// plan (i.e., each browser and URL pair) is measured once per round.
+//
+// - "sequential": each round, each URL is measured in each browser, in the
+//   order they're listed in the plan.
+// - "random": all runs from all rounds are shuffled together.
+// - "counterbalanced": each round, each URL is measured in each browser, but
+//   the order of the browsers is rotated for each URL and round (i.e.,
+//   a Latin square), so that each browser is measured in each position
+//   equally often.
+//
+// Any warm-up runs happen first: each browser loads the first URL in the
+// plan "warmups" times, and the results of these runs are discarded.
+export const planRuns = (plan: Plan): PlanRun[] => {
+  const { browsers, order, rounds, urls, warmups } = plan;
+  const runs: PlanRun[] = [];
+
+  for (let warmup = 1; warmup <= warmups; warmup += 1) {
+    for (const aBrowser of browsers) {
+      runs.push({ browser: aBrowser, round: 0, url: urls[0], warmup: true });
+    }
+  }
+
+  const measuredRuns: PlanRun[] = [];
+  for (let round = 1; round <= rounds; round += 1) {
+    for (const [urlIndex, aURL] of urls.entries()) {
+      let browsersForURL = browsers;
+      if (order === PlanOrder.Counterbalanced) {
+        const offset = (round - 1 + urlIndex) % browsers.length;
+        browsersForURL = [
+          ...browsers.slice(offset),
+          ...browsers.slice(0, offset),
+        ];
+      }
+      for (const aBrowser of browsersForURL) {
+        measuredRuns.push({
+          browser: aBrowser,
+          round,
+          url: aURL,
+          warmup: false,
+        });
+      }
+    }
+  }
+
+  if (order === PlanOrder.Random) {
+    runs.push(...shuffle(measuredRuns, makeRandom(plan.seed)));
+  } else {
+    runs.push(...measuredRuns);
+  }
+  return runs;
+};
+
+const valuesForRun = (plan: Plan, run: PlanRun): RunConfigValues => {
+  return {
+    ...plan.settings,
+    ...run.browser.values,
+    url: run.url,
+  };
+};
+
+// Check that each browser in the plan (along with the plan's settings)
+// describes a valid run config, before we start measuring anything.
+export const validatePlan = async (
+  plan: Plan,
+  argsForValues: ArgsForValuesFunc,
+): Promise<void> => {
+  // Only the first URL is checked along with each browser's config below,
+  // so the rest are checked here, before any of them are measured.
+  for (const aURL of plan.urls) {
+    if (!URL.canParse(aURL)) {
+      throw new Error(`Invalid URL in plan file "${plan.path}": "${aURL}"`);
+    }
+    try {
+      assertIsMeasurableURL(new URL(aURL));
+    } catch (err: unknown) {
+      throw new Error(
+        `Invalid URL in plan file "${plan.path}": "${aURL}". ` +
+          (err instanceof Error ? err.message : String(err)),
+      );
+    }
+  }
+  // Some values (e.g., "har") require an output path, so each config is
+  // checked with an output in a temp dir, which is removed afterwards.
+  const tempDir = await makeTempDir();
+  try {
+    for (const aBrowser of plan.browsers) {
+      const values = valuesForRun(plan, {
+        browser: aBrowser,
+        round: 0,
+        url: plan.urls[0],
+        warmup: false,
+      });
+      // Each run would replace the archive recorded by the run before it
+      // (as with --repeat), so archives have to be recorded separately.
+      if (values.record !== undefined) {
+        throw new Error(
+          `Invalid configuration for browser "${aBrowser.name}" in plan ` +
+            `file "${plan.path}": "record" can't be used in plans, since ` +
+            "each run would replace the archive. Record the archive once, " +
+            'and then "replay" it in a plan with just that URL.',
+        );
+      }
+      // An archive only holds the responses for one URL (as with
+      // --url-file), so the other URLs' requests would all fail.
+      if (values.replay !== undefined && plan.urls.length > 1) {
+        throw new Error(
+          `Invalid configuration for browser "${aBrowser.name}" in plan ` +
+            `file "${plan.path}": "replay" can't be used in plans with more ` +
+            "than one URL, since an archive only holds the responses for " +
+            "one URL.",
+        );
+      }
+      values.output = tempDir.path;
+      let runConfig: RunConfig;
+      try {
+        runConfig = await runConfigForArgs(argsForValues(values));
+      } catch (err: unknown) {
+        throw new Error(
+          `Invalid configuration for browser "${aBrowser.name}" in plan ` +
+            `file "${plan.path}": ` +
+            (err instanceof Error ? err.message : String(err)),
+        );
+      }
+      runConfig.output.destroy();
+    }
+  } finally {
+    await tempDir.remove();
+  }
+};
+
+const outputPathForRun = async (
+  outputDir: Path,
+  run: PlanRun,
+): Promise<Path> => {
+  const browserPart = toSafeFilename(run.browser.name);
+  const urlPart = toSafeFilename(new URL(run.url).hostname);
+  const roundPart = `round-${run.round.toString()}`;
+  const fileName = `${browserPart}_${urlPart}_${roundPart}`;
+  return await makeUniqueFilename(outputDir, fileName, ".json");
+};
+
+// Perform each run in the plan, in order, writing a report for each
+// measured (i.e., non-warm-up) run to the given directory. Failures are
+// recorded in the returned results, and then we move on to the next run.
+export const measurePlan = async (
+  logger: Logger,
+  plan: Plan,
+  outputDir: Path,
+  argsForValues: ArgsForValuesFunc,
+): Promise<PlanRunResult[]> => {
+  const log = logger.prefixedLogger("measurePlan(): ");
+  const runs = planRuns(plan);
+  const numRuns = runs.length.toString();
+  const results: PlanRunResult[] = [];
+
+  for (const [index, aRun] of runs.entries()) {
+    const position = index + 1;
+    const prefix = `(${position.toString()}/${numRuns}) `;
+    const runDesc = aRun.warmup
+      ? "warm-up run"
+      : `round ${aRun.round.toString()}`;
+    log.info(
+      prefix,
+      `Measuring url="${aRun.url}" in browser="${aRun.browser.name}" `,
+      `(${runDesc})`,
+    );
+
+    const cell: PlanCellTag = {
+      browser: aRun.browser.name,
+      order: plan.order,
+      plan: plan.path,
+      position: position,
+      round: aRun.round,
+      seed: plan.seed,
+      url: aRun.url,
+    };
+    const start = new Date();
+    let runConfig: RunConfig | undefined;
+    // Warm-up runs write their report (and any files written alongside it,
+    // like HAR files) into a temp dir, which is removed after the run.
+    let warmupDir: Awaited<ReturnType<typeof makeTempDir>> | undefined;
+    try {
+      const values = valuesForRun(plan, aRun);
+      if (aRun.warmup) {
+        warmupDir = await makeTempDir();
+        values.output = warmupDir.path;
+      } else {
+        values.output = await outputPathForRun(outputDir, aRun);
+      }
+      runConfig = await runConfigForArgs(argsForValues(values));
+      const report = await measureRunConfig(logger, runConfig);
+      if (aRun.warmup) {
+        await discardReport(log, runConfig);
+      } else {
+        await writeReport(runConfig, { ...report, planCell: cell });
+      }
+      results.push({
+        cell,
+        end: new Date(),
+        output: aRun.warmup ? undefined : runConfig.outputPath,
+        start,
+        warmup: aRun.warmup,
+      });
+    } catch (err: unknown) {
+      const errMsg = err instanceof Error ? err.toString() : String(err);
+      log.error(prefix, `Error measuring url="${aRun.url}": `, errMsg);
+      if (runConfig) {
+        await discardReport(log, runConfig);
+      }
+      results.push({
+        cell,
+        end: new Date(),
+        error: errMsg,
+        start,
+        warmup: aRun.warmup,
+      });
+    } finally {
+      await warmupDir?.remove();
+    }
+  }
+  return results;
+};
+
+// Writes a summary of the plan's runs (in the order they were performed),
+// and where each run's report was written (or why it failed).
+export const writePlanSummary = async (
+  outputDir: Path,
+  plan: Plan,
+  results: PlanRunResult[],
+): Promise<Path> => {
+  const summaryPath = await makeUniqueFilename(
+    outputDir,
+    "plan-summary",
+    ".json",
+  );
+  const summary = {
+    browsers: plan.browsers,
+    failed: results.filter((x) => x.error !== undefined).length,
+    order: plan.order,
+    plan: plan.path,
+    rounds: plan.rounds,
+    runs: results,
+    seed: plan.seed,
+    settings: plan.settings,
+    urls: plan.urls,
+    warmups: plan.warmups,
+  };
+  await writeFile(summaryPath, JSON.stringify(summary), "utf8");
+  return summaryPath;
+};
@@ -0,0 +1,168 @@
+import { readFile } from "node:fs/promises";
+
+import { Page } from "@playwright/test";
+
+import { Logger } from "./logging.js";
+import {
+  Path,
+  RunConfig,
+  ScenarioAction,
+  ScenarioStep,
+  ScenarioStepResult,
+} from "./types.js";
+
+export interface Scenario {
+  path: Path;
+  steps: ScenarioStep[];
+}
+
+// The values each action's steps need, and checks for them.
+const stepValueChecks: Record<
+  ScenarioAction,
+  [(step: Record<string, unknown>) => boolean, string]
+> = {
+  [ScenarioAction.Back]: [() => true, "no other values"],
+  [ScenarioAction.Click]: [
+    (x) => typeof x.selector === "string",
+    'a "selector" string',
+  ],
+  [ScenarioAction.Goto]: [(x) => typeof x.url === "string", 'a "url" string'],
+  [ScenarioAction.Scroll]: [
+    (x) => typeof x.pixels === "number" || x.to === "bottom",
+    'either a "pixels" number, or "to": "bottom"',
+  ],
+  [ScenarioAction.Type]: [
+    (x) => typeof x.selector === "string" && typeof x.text === "string",
+    '"selector" and "text" strings',
+  ],
+  [ScenarioAction.Wait]: [
+    (x) => typeof x.seconds === "number" && x.seconds >= 0,
+    'a non-negative "seconds" number',
+  ],
+};
+
+// Reads and checks the steps in a --scenario file. The file is JSON in
+// the following format, and the steps are run in order:
+// {
+//   "steps": [
+//     {"action": "scroll", "pixels": 800},
+//     {"action": "scroll", "to": "bottom"},
+//     {"action": "wait", "seconds": 2},
+//     {"action": "click", "selector": "#load-more"},
+//     {"action": "type", "selector": "input[name=q]", "text": "news"},
+//     {"action": "goto", "url": "https://example.org/other"},
+//     {"action": "back"}
+//   ]
+// }
+export const loadScenario = async (path: Path): Promise<Scenario> => {
+  let scenarioData: unknown;
+  try {
+    scenarioData = JSON.parse(await readFile(path, "utf8"));
+  } catch (err: unknown) {
+    throw new Error(
+      `Unable to read --scenario file "${path}": ` + (err as Error).toString(),
+    );
+  }
+
+  const source = `--scenario file "${path}"`;
+  const steps = (scenarioData as { steps?: unknown } | null)?.steps;
+  if (!Array.isArray(steps) || steps.length === 0) {
+    throw new Error(`"steps" in ${source} must be a non-empty array.`);
+  }
+  for (const [index, aStep] of steps.entries()) {
+    const stepSource = `"steps[${index.toString()}]" in ${source}`;
+    if (typeof aStep !== "object" || aStep === null) {
+      throw new Error(`Expected an object for ${stepSource}.`);
+    }
+    const rawStep = aStep as Record<string, unknown>;
+    const action = rawStep.action as ScenarioAction;
+    if (!Object.values(ScenarioAction).includes(action)) {
+      throw new Error(
+        `"action" for ${stepSource} must be one of: ` +
+          Object.values(ScenarioAction).join(", "),
+      );
+    }
+    const [check, description] = stepValueChecks[action];
+    if (!check(rawStep)) {
+      throw new Error(
+        `The "${action}" action for ${stepSource} requires ${description}.`,
+      );
+    }
+  }
+  return { path: path, steps: steps as ScenarioStep[] };
+};
+
+// Scrolls with the mouse wheel (instead of by setting the scroll
+// position), so that the page sees the same events as when a user scrolls.
+const scrollPage = async (page: Page, step: ScenarioStep) => {
+  let pixels: number;
+  if ("pixels" in step) {
+    pixels = step.pixels;
+  } else {
+    pixels = await page.evaluate(() => {
+      const { scrollHeight } = document.documentElement;
+      return scrollHeight - window.scrollY - window.innerHeight;
+    });
+  }
+  await page.mouse.wheel(0, pixels);
+};
+
+const runStep = async (page: Page, step: ScenarioStep, timeoutMs: number) => {
+  switch (step.action) {
+    case ScenarioAction.Back:
+      await page.goBack({ timeout: timeoutMs, waitUntil: "commit" });
+      break;
+    case ScenarioAction.Click:
+      await page.locator(step.selector).first().click({ timeout: timeoutMs });
+      break;
+    case ScenarioAction.Goto:
+      await page.goto(step.url, { timeout: timeoutMs, waitUntil: "commit" });
+      break;
+    case ScenarioAction.Scroll:
+      await scrollPage(page, step);
+      break;
+    case ScenarioAction.Type:
+      await page
+        .locator(step.selector)
+        .first()
+        .pressSequentially(step.text, { timeout: timeoutMs });
+      break;
+    case ScenarioAction.Wait:
+      await page.waitForTimeout(step.seconds * 1000);
+      break;
+  }
+};
+
+// Runs each step of the run config's scenario in the page, in order,
+// recording when each step started and ended. A step that fails (e.g., if
+// the element to click never appears) is recorded with its error, and the
+// following steps are still run, so that the rest of the measurement
+// isn't lost.
+export const runScenario = async (
+  logger: Logger,
+  page: Page,
+  runConfig: RunConfig,
+): Promise<ScenarioStepResult[]> => {
+  const { scenario, timeout } = runConfig;
+  if (scenario === undefined) {
+    return [];
+  }
+
+  const log = logger.prefixedLogger("runScenario(): ");
+  const numSteps = scenario.steps.length.toString();
+  const results: ScenarioStepResult[] = [];
+  for (const [index, aStep] of scenario.steps.entries()) {
+    const prefix = `(${(index + 1).toString()}/${numSteps}) `;
+    log.info(prefix, `Running step "${aStep.action}"`);
+    const start = new Date();
+    let error: string | null = null;
+    try {
+      await runStep(page, aStep, timeout * 1000);
+    } catch (err: unknown) {
+      error = err instanceof Error ? err.message : String(err);
+      log.error(prefix, `Step "${aStep.action}" failed: `, error);
+    }
+    results.push({ step: aStep, start: start, end: new Date(), error: error });
+  }
+  return results;
+};
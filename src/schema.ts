@@ -0,0 +1,507 @@
+import { readFile } from "node:fs/promises";
+
+import { Ajv, ValidateFunction } from "ajv";
+import ajvFormats from "ajv-formats";
+
+import {
+  classificationTotals,
+  makeTrafficClassifier,
+} from "./measurements/classify.js";
+import { MemoryCPUDatapoint } from "./measurements/memory-cpu.js";
+import { summarizeMemoryCPU } from "./measurements/memory-cpu-summary.js";
+import { PageNetworkMeasurement } from "./measurements/network.js";
+import { summarizeNetwork } from "./measurements/network-summary.js";
+import {
+  CacheMode,
+  MeasurementType,
+  MemoryBackend,
+  Path,
+  Report,
+  TrialsReport,
+} from "./types.js";
+
+// Version of the structure of reports. This should be incremented whenever
+// the structure of the Report type (or any of the measurement types it
+// includes) changes, along with regenerating the JSON Schema for reports
+// (with `npm run schema`), and adding a function to reportUpgrades for
+// upgrading reports from the previous version (if possible).
+//
+// Reports generated before schema versions were added don't have
+// a "schemaVersion" field, and are treated as version 0.
+export const reportSchemaVersion = 20;
+
+const schemaURL = new URL("../schema/report.schema.json", import.meta.url);
+
+// The form reports take after being written to, and read back from, JSON.
+interface JSONStringFields {
+  url: string;
+  start: string;
+  end: string;
+}
+export type JSONReport = Omit<Report, "url" | "start" | "end"> &
+  JSONStringFields;
+export type JSONTrialsReport = Omit<
+  TrialsReport,
+  "url" | "start" | "end" | "trials"
+> &
+  JSONStringFields & { trials: JSONReport[] };
+export type JSONReportFile = JSONReport | JSONTrialsReport;
+
+type JSONObject = Record<string, unknown>;
+type ReportUpgrade = (report: JSONObject) => void;
+
+const isJSONObject = (value: unknown): value is JSONObject => {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+};
+
+// Returns the "data" of the network measurement in a report, if the report
+// includes a network measurement.
+const networkDataFor = (report: JSONObject): JSONObject | undefined => {
+  const network = (report.measurements as JSONObject | undefined)?.network;
+  if (!isJSONObject(network) || !isJSONObject(network.data)) {
+    return undefined;
+  }
+  return network.data;
+};
+
+// Returns the datapoints of the memory-cpu measurement in a report before
+// schema version 12 (where the measurement's data is an array of
+// datapoints), if the report includes a memory-cpu measurement.
+const memoryCPUDatapointsFor = (
+  report: JSONObject,
+): JSONObject[] | undefined => {
+  const measurements = report.measurements as JSONObject | undefined;
+  const memoryCPU = measurements?.[MeasurementType.MemoryCPU];
+  if (!isJSONObject(memoryCPU) || !Array.isArray(memoryCPU.data)) {
+    return undefined;
+  }
+  return (memoryCPU.data as unknown[]).filter(isJSONObject);
+};
+
+// Returns the pages in a report's network measurement, if each page
+// includes arrays of requests and responses. Malformed reports are left for
+// validation to describe.
+const networkPagesFor = (
+  networkData: JSONObject,
+): PageNetworkMeasurement[] | undefined => {
+  const pages = networkData.pages;
+  const isPageWellFormed = (x: unknown) => {
+    return (
+      isJSONObject(x) && Array.isArray(x.requests) && Array.isArray(x.responses)
+    );
+  };
+  if (!Array.isArray(pages) || !pages.every(isPageWellFormed)) {
+    return undefined;
+  }
+  return pages as PageNetworkMeasurement[];
+};
+
+// Reports before version 1:
+// - might not include the "version" of the tool that generated them (added
+//   in 0.2.1),
+// - might not include the security context for network requests and
+//   responses (added in 0.2.6),
+// - don't include the run config they were generated with (added in 0.3.0).
+
+const upgradeFromVersion0: ReportUpgrade = (report) => {
+  report.version ??= "unknown";
+  // We can't recover the full run config, but we do know the URL. The
+  // trials of a repeated run have their own configs.
+  if (!Array.isArray(report.trials)) {
+    report.config ??= { url: report.url };
+  }
+
+  const pages = networkDataFor(report)?.pages;
+  if (!Array.isArray(pages)) {
+    return;
+  }
+  for (const aPage of pages as JSONObject[]) {
+    for (const aKey of ["requests", "responses"]) {
+      const datapoints = aPage[aKey];
+      if (!Array.isArray(datapoints)) {
+        continue;
+      }
+      for (const aDatapoint of datapoints as JSONObject[]) {
+        aDatapoint.context ??= null;
+      }
+    }
+  }
+};
+
+// Version 2 added optional fields (the "har" run config value, and the
+// path to each page's HAR file in network measurements), so reports from
+// version 1 are already valid version 2 reports.
+const upgradeFromVersion1: ReportUpgrade = () => {
+  // pass
+};
+
+// Version 3 labels each network request and response as first- or
+// third-party, and with its tracker category, and adds totals for each.
+// Reports from version 2 weren't measured with a tracker list, but
+// we can still label each request and response by party.
+const upgradeFromVersion2: ReportUpgrade = (report) => {
+  const networkData = networkDataFor(report);
+  if (networkData === undefined || typeof report.url !== "string") {
+    return;
+  }
+  const pages = networkPagesFor(networkData);
+  if (pages === undefined) {
+    return;
+  }
+  const classifier = makeTrafficClassifier(new URL(report.url));
+  for (const aPage of pages) {
+    for (const aDatapoint of [...aPage.requests, ...aPage.responses]) {
+      Object.assign(aDatapoint, classifier(aDatapoint.url));
+    }
+  }
+  networkData.classification = classificationTotals(pages, null);
+};
+
+// Version 4 records the requests each page made that failed or were
+// blocked, and the number of requests that completed. Reports from version 3
+// didn't record either, so the outcomes are unknown.
+const upgradeFromVersion3: ReportUpgrade = (report) => {
+  const pages = networkDataFor(report)?.pages;
+  if (!Array.isArray(pages)) {
+    return;
+  }
+  for (const aPage of pages as JSONObject[]) {
+    aPage.failures ??= [];
+    aPage.outcomes ??= null;
+  }
+};
+
+// Version 5 adds a summary of the requests and responses in network
+// measurements, and records the time of every request and response in
+// milliseconds since the epoch. The times in reports from version 4 can't
+// be converted, so their summaries don't include throughput.
+const upgradeFromVersion4: ReportUpgrade = (report) => {
+  const networkData = networkDataFor(report);
+  if (networkData === undefined) {
+    return;
+  }
+  const pages = networkPagesFor(networkData);
+  if (pages === undefined) {
+    return;
+  }
+  networkData.summary = summarizeNetwork(pages);
+};
+
+// Version 6 added the (optional) storage measurement, so reports from
+// version 5 are already valid version 6 reports.
+const upgradeFromVersion5: ReportUpgrade = () => {
+  // pass
+};
+
+// Version 7 adds Core Web Vitals and other metrics (each with the reason it
+// couldn't be recorded, if it's missing) to timing measurements. Reports from
+// version 6 only recorded the navigation and LCP entries, so the other
+// metrics are missing.
+const upgradeFromVersion6: ReportUpgrade = (report) => {
+  const timing = (report.measurements as JSONObject | undefined)?.timing;
+  if (!isJSONObject(timing) || !Array.isArray(timing.data)) {
+    return;
+  }
+
+  const notRecorded = {
+    value: null,
+    reason: "Not recorded in reports before schema version 7.",
+  };
+  const metricFor = (entry: unknown, name: string) => {
+    const value = isJSONObject(entry) ? entry[name] : undefined;
+    if (typeof value !== "number" || value <= 0) {
+      return notRecorded;
+    }
+    return { value: value, reason: null };
+  };
+
+  for (const aPage of timing.data as JSONObject[]) {
+    if (!isJSONObject(aPage.data)) {
+      continue;
+    }
+    const { lcp, navigation } = aPage.data;
+    aPage.data.metrics ??= {
+      fcp: notRecorded,
+      lcp: metricFor(lcp, "startTime"),
+      cls: notRecorded,
+      inp: notRecorded,
+      ttfb: metricFor(navigation, "responseStart"),
+      domContentLoaded: metricFor(navigation, "domContentLoadedEventEnd"),
+      load: metricFor(navigation, "loadEventEnd"),
+    };
+  }
+};
+
+// Version 8 adds a summary of main thread work (long tasks and long
+// animation frames) to timing measurements, which wasn't recorded before.
+const upgradeFromVersion7: ReportUpgrade = (report) => {
+  const timing = (report.measurements as JSONObject | undefined)?.timing;
+  if (!isJSONObject(timing) || !Array.isArray(timing.data)) {
+    return;
+  }
+  for (const aPage of timing.data as JSONObject[]) {
+    if (isJSONObject(aPage.data)) {
+      aPage.data.mainThread ??= null;
+    }
+  }
+};
+
+// Version 9 added the (optional) cdp-metrics measurement, so reports from
+// version 8 are already valid version 9 reports.
+const upgradeFromVersion8: ReportUpgrade = () => {
+  // pass
+};
+
+// Version 10 labels each process in memory-cpu measurements with its role
+// in the browser, adds totals for each role, and no longer includes the
+// measuring tool's own processes. Reports from version 9 didn't record
+// roles, and their totals can't be corrected.
+const upgradeFromVersion9: ReportUpgrade = (report) => {
+  for (const aDatapoint of memoryCPUDatapointsFor(report) ?? []) {
+    aDatapoint.byRole ??= null;
+    if (!Array.isArray(aDatapoint.processes)) {
+      continue;
+    }
+    for (const aProcess of aDatapoint.processes as JSONObject[]) {
+      aProcess.role ??= null;
+    }
+  }
+};
+
+// Version 11 adds the (optional) proc memory backend, which records more
+// detail about the memory each process uses, and records the backend
+// used for each memory-cpu datapoint. Reports from version 10 always used
+// the pidusage backend.
+const upgradeFromVersion10: ReportUpgrade = (report) => {
+  for (const aDatapoint of memoryCPUDatapointsFor(report) ?? []) {
+    aDatapoint.backend ??= MemoryBackend.PIDUsage;
+    const { byRole, processes, totals } = aDatapoint;
+    const someTotals = isJSONObject(byRole) ? Object.values(byRole) : [];
+    for (const anObject of [totals, ...someTotals]) {
+      if (isJSONObject(anObject)) {
+        anObject.memoryDetail ??= null;
+      }
+    }
+    if (Array.isArray(processes)) {
+      for (const aProcess of processes as JSONObject[]) {
+        aProcess.memoryDetail ??= null;
+      }
+    }
+  }
+};
+
+// Version 12 makes the memory-cpu sampling interval configurable, and adds
+// a summary of the datapoints to memory-cpu measurements, alongside the
+// datapoints themselves. Malformed datapoints are left for validation to
+// describe.
+const upgradeFromVersion11: ReportUpgrade = (report) => {
+  const datapoints = memoryCPUDatapointsFor(report);
+  const isDatapointWellFormed = (x: JSONObject) => {
+    return isJSONObject(x.totals) && typeof x.time === "string";
+  };
+  if (!datapoints?.every(isDatapointWellFormed)) {
+    return;
+  }
+  const memoryCPU = (report.measurements as JSONObject)[
+    MeasurementType.MemoryCPU
+  ] as JSONObject;
+  memoryCPU.data = {
+    datapoints: datapoints,
+    summary: summarizeMemoryCPU(datapoints as unknown as MemoryCPUDatapoint[], {
+      intervalMs: null,
+      skippedSamples: null,
+    }),
+  };
+};
+
+// Version 13 adds the emulated network profile (if any) to single reports.
+// Earlier versions couldn't emulate network conditions.
+const upgradeFromVersion12: ReportUpgrade = (report) => {
+  if (!Array.isArray(report.trials)) {
+    report.networkProfile ??= null;
+  }
+};
+
+// Version 14 adds the archive (if any) single reports were recorded into,
+// or replayed from. Earlier versions couldn't record or replay archives.
+const upgradeFromVersion13: ReportUpgrade = (report) => {
+  if (!Array.isArray(report.trials)) {
+    report.archive ??= null;
+  }
+};
+
+// Version 15 adds cache modes. Earlier versions only measured loading the
+// page with a cold cache.
+const upgradeFromVersion14: ReportUpgrade = (report) => {
+  if (Array.isArray(report.trials)) {
+    report.warmSummary ??= null;
+    return;
+  }
+  report.cacheMode ??= CacheMode.Cold;
+  report.warmMeasurements ??= null;
+};
+
+// Version 16 adds the steps of the --scenario (if any) run during each
+// measured load of the page to single reports.
+const upgradeFromVersion15: ReportUpgrade = (report) => {
+  if (!Array.isArray(report.trials)) {
+    report.scenarioSteps ??= null;
+    report.warmScenarioSteps ??= null;
+  }
+};
+
+// Version 17 adds how the consent banner (if any) was handled during each
+// measured load of the page to single reports. Earlier versions didn't
+// handle consent banners.
+const upgradeFromVersion16: ReportUpgrade = (report) => {
+  if (!Array.isArray(report.trials)) {
+    report.consent ??= null;
+    report.warmConsent ??= null;
+  }
+};
+
+// Version 18 added the (optional) visual measurement, so reports from
+// version 17 are already valid version 18 reports.
+const upgradeFromVersion17: ReportUpgrade = () => {
+  // pass
+};
+
+// Version 19 adds the trace files (if any) recorded during each measured
+// load of the page to single reports.
+const upgradeFromVersion18: ReportUpgrade = (report) => {
+  if (!Array.isArray(report.trials)) {
+    report.trace ??= null;
+    report.warmTrace ??= null;
+  }
+};
+
+// Version 20 adds the extensions loaded with --extension to single reports.
+// Earlier versions couldn't load extensions.
+const upgradeFromVersion19: ReportUpgrade = (report) => {
+  if (!Array.isArray(report.trials)) {
+    report.extensions ??= [];
+  }
+};
+
+// Functions for upgrading a report from the given schema version to the
+// next schema version.
+const reportUpgrades: Record<number, ReportUpgrade> = {
+  0: upgradeFromVersion0,
+  1: upgradeFromVersion1,
+  2: upgradeFromVersion2,
+  3: upgradeFromVersion3,
+  4: upgradeFromVersion4,
+  5: upgradeFromVersion5,
+  6: upgradeFromVersion6,
+  7: upgradeFromVersion7,
+  8: upgradeFromVersion8,
+  9: upgradeFromVersion9,
+  10: upgradeFromVersion10,
+  11: upgradeFromVersion11,
+  12: upgradeFromVersion12,
+  13: upgradeFromVersion13,
+  14: upgradeFromVersion14,
+  15: upgradeFromVersion15,
+  16: upgradeFromVersion16,
+  17: upgradeFromVersion17,
+  18: upgradeFromVersion18,
+  19: upgradeFromVersion19,
+};
+
+const upgradeSingleReport = (report: JSONObject, fromVersion: number) => {
+  for (let version = fromVersion; version < reportSchemaVersion; version += 1) {
+    const upgradeFunc = reportUpgrades[version] as ReportUpgrade | undefined;
+    if (upgradeFunc === undefined) {
+      throw new Error(
+        `Unable to upgrade reports from schema version ${version.toString()}.`,
+      );
+    }
+    upgradeFunc(report);
+    report.schemaVersion = version + 1;
+  }
+};
+
+// Upgrades the given report data (in place) to the current schema version.
+// Returns the schema version the report was originally in.
+export const upgradeReport = (report: unknown): number => {
+  if (!isJSONObject(report)) {
+    throw new Error("Report must be a JSON object.");
+  }
+
+  const fromVersion = report.schemaVersion ?? 0;
+  if (typeof fromVersion !== "number" || !Number.isInteger(fromVersion)) {
+    throw new Error('Report has an invalid "schemaVersion" value.');
+  }
+  if (fromVersion > reportSchemaVersion) {
+    throw new Error(
+      `Report has schema version ${fromVersion.toString()}, which is newer ` +
+        "than the latest schema version this tool supports " +
+        `(${reportSchemaVersion.toString()}).`,
+    );
+  }
+
+  upgradeSingleReport(report, fromVersion);
+  if (Array.isArray(report.trials)) {
+    for (const aTrial of report.trials) {
+      if (isJSONObject(aTrial)) {
+        upgradeSingleReport(aTrial, fromVersion);
+      }
+    }
+  }
+  return fromVersion;
+};
+
+let cachedValidator: undefined | ValidateFunction;
+const getValidator = async (): Promise<ValidateFunction> => {
+  if (cachedValidator !== undefined) {
+    return cachedValidator;
+  }
+  const schemaText = await readFile(schemaURL, "utf8");
+  const ajv = new Ajv({ allErrors: true, allowUnionTypes: true });
+  ajvFormats.default(ajv);
+  cachedValidator = ajv.compile(JSON.parse(schemaText) as object);
+  return cachedValidator;
+};
+
+// Checks the given report data against the JSON Schema for reports.
+// Returns a description of each problem found (i.e., an empty array if the
+// report is valid).
+export const validateReport = async (report: unknown): Promise<string[]> => {
+  const validator = await getValidator();
+  if (validator(report)) {
+    return [];
+  }
+  return (validator.errors ?? []).map((anError) => {
+    const location = anError.instancePath || "(report)";
+    return `${location}: ${anError.message ?? "invalid"}`;
+  });
+};
+
+export interface LoadedReport {
+  report: JSONReportFile;
+  // The schema version of the report file, before it was upgraded.
+  fromVersion: number;
+  // Empty if the (upgraded) report is valid.
+  errors: string[];
+}
+
+// Reads the report at the given path, upgrading it to the current schema
+// version if needed, and checking it against the JSON Schema for reports.
+export const readReport = async (path: Path): Promise<LoadedReport> => {
+  let reportData: unknown;
+  try {
+    reportData = JSON.parse(await readFile(path, "utf8"));
+  } catch (err: unknown) {
+    throw new Error(
+      `Unable to read report "${path}": ` + (err as Error).toString(),
+    );
+  }
+
+  const fromVersion = upgradeReport(reportData);
+  const errors = await validateReport(reportData);
+  return {
+    errors,
+    fromVersion,
+    report: reportData as JSONReportFile,
+  };
+};
@@ -0,0 +1,229 @@
+import { CDPMetricsMeasurement } from "./measurements/cdp-metrics.js";
+import { MemoryCPUMeasurement } from "./measurements/memory-cpu.js";
+import { Party } from "./measurements/classify.js";
+import { NetworkMeasurement } from "./measurements/network.js";
+import { StorageMeasurement } from "./measurements/storage.js";
+import { TimingMeasurement } from "./measurements/timing.js";
+import { VisualMeasurement } from "./measurements/visual.js";
+import {
+  MeasurementResults,
+  MeasurementType,
+  SummaryStats,
+  TrialsSummary,
+} from "./types.js";
+
+// Functions that pull the handful of "headline" numbers out of the data
+// recorded by a measurer, so that they can be aggregated across trials.
+// Each function is passed the "data" field of a MeasurementResult, in the
+// same shape it would have after being written to and read from JSON.
+// A value is null if it couldn't be determined for a measurement (e.g.,
+// the browser didn't report a LCP value for the page).
+type MetricValues = Record<string, number | null>;
+type MetricsExtractor = (data: unknown) => MetricValues;
+
+const numberOrNull = (value: unknown): number | null => {
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+};
+
+const networkMetrics = (data: unknown): MetricValues => {
+  const networkData = data as NetworkMeasurement;
+  const { requestBytes, responseBytes } = networkData.summary.totals;
+  let blockedRequests: number | null = 0;
+  let failedRequests: number | null = 0;
+  for (const aPage of networkData.pages) {
+    // Request outcomes aren't known for reports from older versions.
+    if (aPage.outcomes === null) {
+      blockedRequests = null;
+      failedRequests = null;
+    } else if (blockedRequests !== null && failedRequests !== null) {
+      blockedRequests += aPage.outcomes.blocked;
+      failedRequests += aPage.outcomes.failed;
+    }
+  }
+  return {
+    requestBytes,
+    responseBytes,
+    blockedRequests,
+    failedRequests,
+  };
+};
+
+const navigationTimingNames = [
+  "responseStart",
+  "domInteractive",
+  "domContentLoadedEventEnd",
+  "loadEventEnd",
+  "duration",
+];
+
+const timingMetrics = (data: unknown): MetricValues => {
+  // There should only be a single page with timing information for a
+  // measurement (the page for the measured URL), but if there are more,
+  // we only look at the first.
+  const timingData = (data as TimingMeasurement).at(0)?.data;
+  const metrics: MetricValues = {
+    fcp: numberOrNull(timingData?.metrics.fcp.value),
+    lcp: numberOrNull(timingData?.metrics.lcp.value),
+    cls: numberOrNull(timingData?.metrics.cls.value),
+    inp: numberOrNull(timingData?.metrics.inp.value),
+    tbt: numberOrNull(timingData?.mainThread?.longTasks?.totalBlockingTime),
+  };
+  for (const aName of navigationTimingNames) {
+    metrics[aName] = numberOrNull(timingData?.navigation?.[aName]);
+  }
+  return metrics;
+};
+
+const memoryCPUMetrics = (data: unknown): MetricValues => {
+  const { datapoints, summary } = data as MemoryCPUMeasurement;
+  if (datapoints.length === 0) {
+    return {
+      peakMemory: null,
+      peakCPU: null,
+      meanMemory: null,
+      cpuSeconds: null,
+    };
+  }
+  return {
+    peakMemory: Math.max(...datapoints.map((x) => x.totals.memory)),
+    peakCPU: Math.max(...datapoints.map((x) => x.totals.cpu)),
+    meanMemory: numberOrNull(summary.memory?.timeWeightedMean),
+    cpuSeconds: numberOrNull(summary.cpuSeconds),
+  };
+};
+
+const storageMetrics = (data: unknown): MetricValues => {
+  const storageData = data as StorageMeasurement;
+  const localStorageBytes = storageData.origins
+    .map((x) => x.localStorage?.bytes ?? 0)
+    .reduce((total, x) => total + x, 0);
+  return {
+    cookies: storageData.cookieCounts.total,
+    thirdPartyCookies: storageData.cookieCounts.byParty[Party.Third] ?? 0,
+    localStorageBytes: localStorageBytes,
+    storageStateBytes: storageData.storageState.bytes,
+  };
+};
+
+const cdpMetrics = (data: unknown): MetricValues => {
+  // As with timing, we only look at the first page (i.e., the page for
+  // the measured URL).
+  const peak = (data as CDPMetricsMeasurement).at(0)?.peak;
+  return {
+    jsHeapUsedSize: numberOrNull(peak?.jsHeapUsedSize),
+    scriptDuration: numberOrNull(peak?.scriptDuration),
+    layoutDuration: numberOrNull(peak?.layoutDuration),
+    recalcStyleDuration: numberOrNull(peak?.recalcStyleDuration),
+    taskDuration: numberOrNull(peak?.taskDuration),
+    nodes: numberOrNull(peak?.nodes),
+    jsEventListeners: numberOrNull(peak?.jsEventListeners),
+  };
+};
+
+const visualMetrics = (data: unknown): MetricValues => {
+  // As with timing, we only look at the first page.
+  const pageData = (data as VisualMeasurement).at(0);
+  return {
+    firstVisualChange: numberOrNull(pageData?.firstVisualChange),
+    visuallyComplete: numberOrNull(pageData?.visuallyComplete),
+    speedIndex: numberOrNull(pageData?.speedIndex),
+  };
+};
+
+const measurementTypeToMetricsMap: Record<MeasurementType, MetricsExtractor> = {
+  [MeasurementType.CDPMetrics]: cdpMetrics,
+  [MeasurementType.MemoryCPU]: memoryCPUMetrics,
+  [MeasurementType.Network]: networkMetrics,
+  [MeasurementType.Storage]: storageMetrics,
+  [MeasurementType.Timing]: timingMetrics,
+  [MeasurementType.Visual]: visualMetrics,
+};
+
+export const metricsForMeasurement = (
+  type: MeasurementType,
+  data: unknown,
+): MetricValues => {
+  return measurementTypeToMetricsMap[type](data);
+};
+
+// Returns the p-th percentile (0 <= p <= 1) of the given, already sorted,
+// values, linearly interpolating between the closest ranks.
+const percentile = (sortedValues: number[], p: number): number => {
+  const rank = (sortedValues.length - 1) * p;
+  const lowerIndex = Math.floor(rank);
+  const upperIndex = Math.ceil(rank);
+  const lower = sortedValues[lowerIndex];
+  const upper = sortedValues[upperIndex];
+  return lower + (upper - lower) * (rank - lowerIndex);
+};
+
+export const summaryStats = (values: number[]): SummaryStats | null => {
+  if (values.length === 0) {
+    return null;
+  }
+  const sortedValues = values.toSorted((a, b) => a - b);
+  const count = sortedValues.length;
+  const mean = sortedValues.reduce((prev, cur) => prev + cur, 0) / count;
+  // Sample standard deviation (i.e., with Bessel's correction), since
+  // the trials are a sample of all the page loads we could have measured.
+  const sumOfSquares = sortedValues
+    .map((x) => (x - mean) ** 2)
+    .reduce((prev, cur) => prev + cur, 0);
+  const stddev = count > 1 ? Math.sqrt(sumOfSquares / (count - 1)) : 0;
+  return {
+    count,
+    max: sortedValues[count - 1],
+    mean,
+    median: percentile(sortedValues, 0.5),
+    min: sortedValues[0],
+    p95: percentile(sortedValues, 0.95),
+    stddev,
+  };
+};
+
+// Aggregate the headline numbers from each measurement across the
+// measurements taken in each of a set of trials of the same run config.
+export const summarizeTrials = (
+  trialMeasurements: MeasurementResults[],
+): TrialsSummary => {
+  const valuesByMetric = new Map<MeasurementType, Map<string, number[]>>();
+  for (const someMeasurements of trialMeasurements) {
+    // Round-trip the measurements through JSON, so that we're summarizing
+    // the same data that ends up in the report.
+    const measurements = JSON.parse(
+      JSON.stringify(someMeasurements),
+    ) as MeasurementResults;
+    for (const [aTypeRaw, aResult] of Object.entries(measurements)) {
+      const aType = aTypeRaw as MeasurementType;
+      const resultData = (aResult as { data: unknown } | null)?.data;
+      if (resultData === undefined) {
+        continue;
+      }
+
+      let valuesForType = valuesByMetric.get(aType);
+      if (valuesForType === undefined) {
+        valuesForType = new Map();
+        valuesByMetric.set(aType, valuesForType);
+      }
+
+      const metrics = metricsForMeasurement(aType, resultData);
+      for (const [aName, aValue] of Object.entries(metrics)) {
+        const valuesForMetric = valuesForType.get(aName) ?? [];
+        if (aValue !== null) {
+          valuesForMetric.push(aValue);
+        }
+        valuesForType.set(aName, valuesForMetric);
+      }
+    }
+  }
+
+  const summary: TrialsSummary = {};
+  for (const [aType, valuesForType] of valuesByMetric.entries()) {
+    const statsForType: Record<string, SummaryStats | null> = {};
+    for (const [aName, values] of valuesForType.entries()) {
+      statsForType[aName] = summaryStats(values);
+    }
+    summary[aType] = statsForType;
+  }
+  return summary;
+};
@@ -0,0 +1,228 @@
+import {
+  createServer,
+  IncomingMessage,
+  request,
+  ServerResponse,
+} from "node:http";
+import { AddressInfo, connect, Socket } from "node:net";
+import { Duplex, pipeline, Transform, TransformCallback } from "node:stream";
+import { setTimeout } from "node:timers/promises";
+
+import { Logger } from "./logging.js";
+import { NetworkConditions } from "./types.js";
+
+const waitUntil = async (time: number) => {
+  await setTimeout(Math.max(time - performance.now(), 0));
+};
+
+// Shapes the data sent in one direction (i.e., downloads or uploads)
+// through the proxy, as if every connection shared a single link with the
+// given bandwidth and one-way delay.
+class ThrottledLink {
+  readonly #bytesPerMs: number;
+  readonly #delayMs: number;
+  // When the link will have finished sending everything queued so far,
+  // from performance.now().
+  #busyUntil = 0;
+
+  constructor(kbps: number, delayMs: number) {
+    this.#bytesPerMs = kbps / 8;
+    this.#delayMs = delayMs;
+  }
+
+  // Queues a chunk of the given size on the link, returning when the link
+  // will start sending it, and when it will arrive.
+  #schedule(size: number) {
+    const sendAt = Math.max(performance.now(), this.#busyUntil);
+    this.#busyUntil = sendAt + size / this.#bytesPerMs;
+    return { sendAt: sendAt, arriveAt: this.#busyUntil + this.#delayMs };
+  }
+
+  // Returns when data of the given size, sent now, would arrive over
+  // the link.
+  async send(size: number): Promise<void> {
+    await waitUntil(this.#schedule(size).arriveAt);
+  }
+
+  // Returns a stream that delays the data written to it as if it were sent
+  // over the link.
+  stream(): Transform {
+    const schedule = (size: number) => this.#schedule(size);
+    // Chunks are delivered one after another, so that they can't be
+    // reordered by timers firing out of order.
+    let lastArrival = Promise.resolve();
+    return new Transform({
+      transform(chunk: Buffer, _encoding, callback: TransformCallback) {
+        const { sendAt, arriveAt } = schedule(chunk.length);
+        lastArrival = lastArrival.then(async () => {
+          await waitUntil(arriveAt);
+          this.push(chunk);
+        });
+        // Accept the next chunk once the link starts sending this one, so
+        // that when the link is busy, data backs up in the sender (instead of
+        // in the proxy).
+        void waitUntil(sendAt).then(() => {
+          callback();
+        });
+      },
+      flush(callback: TransformCallback) {
+        void lastArrival.then(() => {
+          callback();
+        });
+      },
+    });
+  }
+}
+
+// Headers that only apply to the connection between the browser and
+// the proxy.
+const proxyHeaderNames = ["proxy-authorization", "proxy-connection"];
+
+export interface ThrottlingProxy {
+  // The URL to give the browser as its HTTP proxy.
+  url: string;
+  close: () => Promise<void>;
+}
+
+// Starts an HTTP proxy (on localhost) that emulates the given network
+// conditions for all the traffic sent through it. HTTPS (and websocket)
+// connections are tunneled with CONNECT, so the proxy doesn't need to
+// decrypt them to throttle them.
+export const startThrottlingProxy = async (
+  logger: Logger,
+  conditions: NetworkConditions,
+): Promise<ThrottlingProxy> => {
+  const log = logger.prefixedLogger("ThrottlingProxy: ");
+  // Half of the round trip latency is added in each direction.
+  const downlink = new ThrottledLink(
+    conditions.download,
+    conditions.latency / 2,
+  );
+  const uplink = new ThrottledLink(conditions.upload, conditions.latency / 2);
+
+  const sockets = new Set<Socket | Duplex>();
+  const trackSocket = (socket: Socket | Duplex) => {
+    sockets.add(socket);
+    socket.on("close", () => sockets.delete(socket));
+  };
+  const logStreamError = (err: Error | null) => {
+    if (err) {
+      log.verbose("Connection closed with error: ", err.message);
+    }
+  };
+
+  // Plain HTTP requests are sent to the proxy with the absolute URL of
+  // the resource being requested.
+  const forwardRequest = async (
+    clientRequest: IncomingMessage,
+    clientResponse: ServerResponse,
+  ) => {
+    let url: URL;
+    try {
+      url = new URL(clientRequest.url ?? "");
+    } catch {
+      clientResponse.writeHead(400).end();
+      return;
+    }
+    const headers = Object.fromEntries(
+      Object.entries(clientRequest.headers).filter(
+        ([name]) => !proxyHeaderNames.includes(name),
+      ),
+    );
+    // The request line and headers are sent over the link too (the body
+    // is throttled as it's streamed).
+    const headerSize = clientRequest.rawHeaders.reduce(
+      (total, x) => total + x.length + 2,
+      (clientRequest.method ?? "").length + url.href.length + 12,
+    );
+    await uplink.send(headerSize);
+    const upstreamRequest = request(
+      url,
+      { method: clientRequest.method, headers: headers },
+      (upstreamResponse) => {
+        clientResponse.writeHead(
+          upstreamResponse.statusCode ?? 502,
+          upstreamResponse.rawHeaders,
+        );
+        pipeline(
+          upstreamResponse,
+          downlink.stream(),
+          clientResponse,
+          logStreamError,
+        );
+      },
+    );
+    upstreamRequest.on("error", (err) => {
+      log.verbose(`Request for "${url.toString()}" failed: `, err.message);
+      if (!clientResponse.headersSent) {
+        clientResponse.writeHead(502);
+      }
+      clientResponse.end();
+    });
+    pipeline(clientRequest, uplink.stream(), upstreamRequest, logStreamError);
+  };
+
+  const server = createServer((clientRequest, clientResponse) => {
+    void forwardRequest(clientRequest, clientResponse);
+  });
+
+  server.on("connection", trackSocket);
+  server.on(
+    "connect",
+    (connectRequest: IncomingMessage, clientSocket: Duplex, head: Buffer) => {
+      let target: URL;
+      try {
+        target = new URL(`http://${connectRequest.url ?? ""}`);
+      } catch {
+        clientSocket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+        return;
+      }
+      // Strip the brackets around IPv6 addresses.
+      const host = target.hostname.replace(/^\[(.*)\]$/, "$1");
+      const port = target.port === "" ? 443 : parseInt(target.port, 10);
+      const upstreamSocket = connect(port, host, () => {
+        clientSocket.write("HTTP/1.1 200 Connection Established\r\n\r\n");
+        const uplinkStream = uplink.stream();
+        uplinkStream.write(head);
+        // Unlike pipeline(), pipe() doesn't destroy the other streams when
+        // one side closes, so data still being delayed on its way to the
+        // other side is delivered before the tunnel is closed.
+        clientSocket.pipe(uplinkStream).pipe(upstreamSocket);
+        upstreamSocket.pipe(downlink.stream()).pipe(clientSocket);
+      });
+      trackSocket(upstreamSocket);
+      upstreamSocket.on("error", (err) => {
+        log.verbose(`Tunnel to "${target.host}" failed: `, err.message);
+        clientSocket.destroy();
+      });
+      clientSocket.on("error", (err) => {
+        log.verbose(`Tunnel to "${target.host}" closed: `, err.message);
+      });
+      clientSocket.on("close", () => {
+        upstreamSocket.destroy();
+      });
+    },
+  );
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(0, "127.0.0.1", resolve);
+  });
+  const { port } = server.address() as AddressInfo;
+  const url = `http://127.0.0.1:${port.toString()}`;
+  log.verbose("Listening at ", url);
+
+  return {
+    url: url,
+    close: async () => {
+      for (const aSocket of sockets) {
+        aSocket.destroy();
+      }
+      await new Promise<void>((resolve) => {
+        server.close(() => {
+          resolve();
+        });
+      });
+    },
+  };
+};
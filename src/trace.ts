@@ -0,0 +1,132 @@
+import { open } from "node:fs/promises";
+
+import { BrowserContext, CDPSession, Page } from "@playwright/test";
+
+import { artifactPath } from "./config.js";
+import { Logger } from "./logging.js";
+import { Path, RunConfig, TraceFiles } from "./types.js";
+
+// The categories recorded in Chrome traces unless --trace-categories is
+// given, which are the ones the Performance panel in Chrome DevTools
+// records. Categories starting with "-" are excluded from the trace.
+export const defaultTraceCategories = [
+  "-*",
+  "devtools.timeline",
+  "v8.execute",
+  "disabled-by-default-devtools.timeline",
+  "disabled-by-default-devtools.timeline.frame",
+  "toplevel",
+  "blink.console",
+  "blink.user_timing",
+  "latencyInfo",
+  "disabled-by-default-devtools.timeline.stack",
+  "disabled-by-default-v8.cpu_profiler",
+];
+
+export interface TraceSession {
+  // Stops tracing, and writes the trace files alongside the report.
+  finish: () => Promise<TraceFiles>;
+}
+
+// Starts a Chrome trace through the page's CDP session. Even though the
+// session is for the page, the trace includes every browser process.
+const startChromeTrace = async (
+  context: BrowserContext,
+  page: Page,
+  categories: string[],
+): Promise<CDPSession> => {
+  const session = await context.newCDPSession(page);
+  await session.send("Tracing.start", {
+    transferMode: "ReturnAsStream",
+    traceConfig: {
+      includedCategories: categories.filter((x) => !x.startsWith("-")),
+      excludedCategories: categories
+        .filter((x) => x.startsWith("-"))
+        .map((x) => x.slice(1)),
+    },
+  });
+  return session;
+};
+
+// Ends the Chrome trace, and streams it from the browser into the file,
+// since traces are often too large to be read in a single message.
+const writeChromeTrace = async (session: CDPSession, path: Path) => {
+  const tracingComplete = new Promise<string | undefined>((resolve) => {
+    session.once("Tracing.tracingComplete", (event) => {
+      resolve(event.stream);
+    });
+  });
+  await session.send("Tracing.end");
+  const stream = await tracingComplete;
+  if (stream === undefined) {
+    throw new Error("The browser didn't return a stream for the trace.");
+  }
+
+  const file = await open(path, "w");
+  try {
+    let isDone = false;
+    while (!isDone) {
+      const chunk = await session.send("IO.read", { handle: stream });
+      const encoding = chunk.base64Encoded ? "base64" : "utf8";
+      await file.write(Buffer.from(chunk.data, encoding));
+      isDone = chunk.eof;
+    }
+  } finally {
+    await file.close();
+  }
+  await session.send("IO.close", { handle: stream });
+  await session.detach();
+};
+
+// Starts recording a Playwright trace of the context (in every browser),
+// and (for Chromium browsers) a Chrome trace, if the run config has tracing
+// enabled. The Playwright trace includes screenshots and DOM snapshots of
+// the page, so tracing adds work for the browser while the page loads.
+export const startTrace = async (
+  logger: Logger,
+  context: BrowserContext,
+  page: Page,
+  runConfig: RunConfig,
+): Promise<TraceSession | null> => {
+  const { trace, traceCategories } = runConfig;
+  if (!trace) {
+    return null;
+  }
+
+  const log = logger.prefixedLogger("TraceSession: ");
+  log.verbose("Starting Playwright trace");
+  await context.tracing.start({ screenshots: true, snapshots: true });
+  let chromeSession: CDPSession | null = null;
+  if (traceCategories !== undefined) {
+    log.verbose(
+      "Starting Chrome trace with categories: ",
+      traceCategories.join(","),
+    );
+    try {
+      chromeSession = await startChromeTrace(context, page, traceCategories);
+    } catch (err: unknown) {
+      log.error("Unable to start Chrome trace: ", err);
+    }
+  }
+
+  return {
+    finish: async () => {
+      const playwrightPath = artifactPath(runConfig, "trace.zip");
+      log.info(`Writing Playwright trace "${playwrightPath}"`);
+      await context.tracing.stop({ path: playwrightPath });
+
+      let chromePath: Path | null = null;
+      if (chromeSession !== null) {
+        const path = artifactPath(runConfig, "trace.json");
+        log.info(`Writing Chrome trace "${path}"`);
+        try {
+          await writeChromeTrace(chromeSession, path);
+          chromePath = path;
+        } catch (err: unknown) {
+          log.error("Unable to write Chrome trace: ", err);
+        }
+      }
+      return { playwright: playwrightPath, chrome: chromePath };
+    },
+  };
+};
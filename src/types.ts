@@ -2,7 +2,18 @@ import { Writable } from "node:stream";
 
 import { LaunchOptions } from "playwright";
 
+import { ConsentRules } from "./consent.js";
+import { Extension } from "./extensions.js";
 import { LoggingLevel } from "./logging.js";
+import { MeasurementResult } from "./measurements/base.js";
+import { CDPMetricsMeasurement } from "./measurements/cdp-metrics.js";
+import { TrackerList } from "./measurements/classify.js";
+import { MemoryCPUMeasurement } from "./measurements/memory-cpu.js";
+import { NetworkMeasurement } from "./measurements/network.js";
+import { StorageMeasurement } from "./measurements/storage.js";
+import { TimingMeasurement } from "./measurements/timing.js";
+import { VisualMeasurement } from "./measurements/visual.js";
+import { Scenario } from "./scenario.js";
 
 export type Path = string;
 export type Serializable = unknown;
@@ -20,6 +31,98 @@ export interface PersistentLaunchOptions extends LaunchOptions {
   serviceWorkers: "allow" | "block";
 }
 
+// Whether a run records the responses it receives into an archive, or
+// serves the page from a previously recorded archive.
+export enum ArchiveMode {
+  Record = "record",
+  Replay = "replay",
+}
+
+export interface RunArchive {
+  mode: ArchiveMode;
+  path: Path;
+}
+
+// A request made during a replayed run that had no response in
+// the archive (and so failed).
+export interface ArchiveMiss {
+  method: string;
+  url: string;
+  resourceType: string;
+}
+
+// Describes the archive a report was recorded into, or replayed from.
+export interface ArchiveSummary extends RunArchive {
+  // The number of responses recorded into the archive, or in the archive
+  // being replayed.
+  responses: number;
+  // Always empty when recording.
+  misses: ArchiveMiss[];
+}
+
+// Whether the page is measured when loaded with an empty HTTP cache (i.e.,
+// a first visit), after the cache was primed by an earlier load of the
+// page (i.e., a repeat visit), or both.
+export enum CacheMode {
+  Cold = "cold",
+  Warm = "warm",
+  Both = "both",
+}
+
+// What to do with the consent banner (e.g., for cookies) shown by a
+// consent management platform (CMP), if one is detected after navigating to
+// the URL.
+export enum ConsentMode {
+  Accept = "accept",
+  Ignore = "ignore",
+  Reject = "reject",
+}
+
+// The consent banner detected during a load of the page, and what was
+// done with it.
+export interface ConsentResult {
+  mode: ConsentMode;
+  // The name of the rule (in the --consent-rules file) that matched the
+  // banner, or null if no banner was detected.
+  cmp: string | null;
+  // The CMP ID the page's IAB TCF API (i.e., window.__tcfapi) reported, or
+  // null if the page doesn't have the API (or it didn't respond).
+  tcfCMPId: number | null;
+  // How long looking for the banner took, in milliseconds, which counts
+  // toward the time the page is left to load.
+  detectionMs: number;
+  // Whether the buttons for accepting or rejecting consent were clicked.
+  actionTaken: boolean;
+  // When the last button was clicked (or null if they weren't, or the rule
+  // doesn't have any buttons for the consent mode).
+  actionTime: Date | null;
+  // Why the buttons couldn't be clicked, or null.
+  error: string | null;
+}
+
+// The trace files written alongside the report for a measured load of the
+// page, with --trace.
+export interface TraceFiles {
+  // The Playwright trace (which can be opened with 'npx playwright
+  // show-trace').
+  playwright: Path;
+  // The Chrome trace event file (which can be opened in the Performance
+  // panel of Chrome DevTools, or in Perfetto), for Chromium browsers. Null
+  // for other browsers, or if the trace couldn't be recorded.
+  chrome: Path | null;
+}
+
+// An extension loaded into the browser with --extension.
+export interface LoadedExtension {
+  // The ID the browser knows the extension by (for Gecko, the ID in its
+  // manifest).
+  id: string;
+  // The name and version in the extension's manifest.
+  name: string;
+  version: string;
+  path: Path;
+}
+
 export enum BrowserType {
   Brave = "brave",
   Chromium = "chromium",
@@ -28,34 +131,294 @@ export enum BrowserType {
 }
 
 export enum MeasurementType {
+  CDPMetrics = "cdp-metrics",
   MemoryCPU = "memory-cpu",
   Network = "network",
+  Storage = "storage",
   Timing = "timing",
+  Visual = "visual",
+}
+
+// How the memory-cpu measurement reads the memory and CPU use of each
+// browser process.
+export enum MemoryBackend {
+  // Uses the "pidusage" package (i.e., RSS and CPU% from 'ps', on POSIX
+  // systems).
+  PIDUsage = "pidusage",
+  // Reads /proc/<pid>/smaps_rollup and /proc/<pid>/stat (Linux only).
+  Proc = "proc",
+}
+
+// Presets for the network conditions to emulate (see networkProfilePresets
+// in network-profile.ts), or "custom" for conditions given as arguments.
+export enum NetworkProfileName {
+  Slow3G = "slow-3g",
+  Fast3G = "fast-3g",
+  Slow4G = "slow-4g",
+  Fast4G = "fast-4g",
+  Cable = "cable",
+  Custom = "custom",
+}
+
+// How network conditions are emulated in the browser.
+export enum NetworkEmulationMethod {
+  // With the Chrome DevTools Protocol (Chromium browsers only).
+  CDP = "cdp",
+  // By sending all traffic through a throttling proxy run by this tool.
+  Proxy = "proxy",
+}
+
+export interface NetworkConditions {
+  // Round trip latency added to the connection, in milliseconds.
+  latency: number;
+  // Bandwidth, in kilobits per second.
+  download: number;
+  upload: number;
+}
+
+export interface NetworkProfile extends NetworkConditions {
+  name: NetworkProfileName;
+}
+
+// The network conditions emulated while generating a report.
+export interface AppliedNetworkProfile extends NetworkProfile {
+  method: NetworkEmulationMethod;
+}
+
+// The user interactions a --scenario file can describe.
+export enum ScenarioAction {
+  Back = "back",
+  Click = "click",
+  Goto = "goto",
+  Scroll = "scroll",
+  Type = "type",
+  Wait = "wait",
+}
+
+export type ScenarioStep =
+  | { action: ScenarioAction.Back }
+  | { action: ScenarioAction.Click; selector: string }
+  | { action: ScenarioAction.Goto; url: string }
+  // Scrolls down (or up, for negative values) by the given number of
+  // pixels, or to the bottom of the page.
+  | { action: ScenarioAction.Scroll; pixels: number }
+  | { action: ScenarioAction.Scroll; to: "bottom" }
+  | { action: ScenarioAction.Type; selector: string; text: string }
+  | { action: ScenarioAction.Wait; seconds: number };
+
+// When a step of a scenario was run, so that measurements can be lined
+// up with the user interactions.
+export interface ScenarioStepResult {
+  step: ScenarioStep;
+  start: Date;
+  end: Date;
+  // Null if the step succeeded. Steps after a failed step are still run.
+  error: string | null;
+}
+
+export enum PlanOrder {
+  Counterbalanced = "counterbalanced",
+  Random = "random",
+  Sequential = "sequential",
+}
+
+// Describes which run in an experiment plan (i.e., which browser, URL, and
+// round) a report was generated for.
+export interface PlanCellTag {
+  browser: string;
+  order: PlanOrder;
+  plan: Path;
+  // Position of this run in the order the plan's runs were performed
+  // (starting at 1, and including any warm-up runs).
+  position: number;
+  round: number;
+  seed: number;
+  url: string;
+}
+
+// The results of each measurement that was performed (measurements that
+// weren't requested with --measurements are not included).
+export interface MeasurementResults {
+  [MeasurementType.CDPMetrics]?: MeasurementResult<CDPMetricsMeasurement> | null;
+  [MeasurementType.MemoryCPU]?: MeasurementResult<MemoryCPUMeasurement> | null;
+  [MeasurementType.Network]?: MeasurementResult<NetworkMeasurement> | null;
+  [MeasurementType.Storage]?: MeasurementResult<StorageMeasurement> | null;
+  [MeasurementType.Timing]?: MeasurementResult<TimingMeasurement> | null;
+  [MeasurementType.Visual]?: MeasurementResult<VisualMeasurement> | null;
 }
 
 export interface Report {
+  // Version of the structure of the report (see reportSchemaVersion in
+  // schema.ts), which changes whenever the structure of reports changes.
+  schemaVersion: number;
   url: URL;
   start: Date;
   end: Date;
   version: VersionNumber;
-  measurements: Record<MeasurementType, unknown>;
+  cacheMode: CacheMode;
+  // The measurements of the first measured load of the page (i.e., with a
+  // warm cache for the "warm" cache mode, and a cold cache otherwise).
+  measurements: MeasurementResults;
+  // The measurements of the second load of the page, with a warm cache,
+  // for the "both" cache mode (and null otherwise).
+  warmMeasurements: MeasurementResults | null;
+  // Null if network conditions weren't emulated (or for reports before
+  // schema version 13).
+  networkProfile: AppliedNetworkProfile | null;
+  // How the consent banner was handled during the first measured load (or
+  // null for the "ignore" consent mode, or for reports before schema
+  // version 17).
+  consent: ConsentResult | null;
+  // How the consent banner was handled during the second measured load,
+  // for the "both" cache mode (and null otherwise).
+  warmConsent: ConsentResult | null;
+  // The steps of the --scenario run during the first measured load (or
+  // null if no scenario was given, or for reports before schema version 16).
+  scenarioSteps: ScenarioStepResult[] | null;
+  // The steps of the --scenario run during the second measured load, for
+  // the "both" cache mode (and null otherwise).
+  warmScenarioSteps: ScenarioStepResult[] | null;
+  // The files traced during the first measured load (or null if --trace
+  // wasn't given, or for reports before schema version 19).
+  trace: TraceFiles | null;
+  // The files traced during the second measured load, for the "both" cache
+  // mode (and null otherwise).
+  warmTrace: TraceFiles | null;
+  // Empty if no extensions were loaded with --extension (or for reports
+  // before schema version 20).
+  extensions: LoadedExtension[];
+  // Null if the run didn't record or replay an archive (or for reports
+  // before schema version 14).
+  archive: ArchiveSummary | null;
+  // The resolved run config the report was generated with, in the same
+  // format as a --config file.
+  config: RunConfigValues;
+  planCell?: PlanCellTag;
+}
+
+export interface SummaryStats {
+  count: number;
+  max: number;
+  mean: number;
+  median: number;
+  min: number;
+  p95: number;
+  stddev: number;
 }
 
+// Summary statistics for each of the headline numbers of each measurement
+// type, aggregated across trials (e.g., summary.network.responseBytes).
+export type TrialsSummary = Partial<
+  Record<MeasurementType, Record<string, SummaryStats | null>>
+>;
+
+// Report generated when the same run config is measured more than
+// once (i.e., with --repeat).
+export interface TrialsReport {
+  schemaVersion: number;
+  url: URL;
+  start: Date;
+  end: Date;
+  version: VersionNumber;
+  repeat: number;
+  planCell?: PlanCellTag;
+  summary: TrialsSummary;
+  // Summary of the trials' warmMeasurements, for the "both" cache mode (and
+  // null otherwise).
+  warmSummary: TrialsSummary | null;
+  trials: Report[];
+}
+
+// Any file this tool writes reports to.
+export type ReportFile = Report | TrialsReport;
+
 export interface RunConfig {
+  // Undefined if responses aren't being recorded or replayed.
+  archive?: RunArchive;
   args?: string[];
+  // Path prefix for any files written alongside the report (e.g., HAR
+  // files). Undefined when results are written to STDOUT.
+  artifactsPrefix?: Path;
   binary: Path;
   browser: BrowserType;
+  cacheMode: CacheMode;
+  consent: ConsentMode;
+  // Undefined for the "ignore" consent mode.
+  consentRules?: ConsentRules;
+  extensions: Extension[];
   firefoxUserPrefs?: FirefoxUserPrefs;
+  har: boolean;
   loggingLevel: LoggingLevel;
   measurements: MeasurementType[];
+  memoryBackend: MemoryBackend;
+  // How often the memory-cpu measurement samples memory and CPU use, in
+  // milliseconds.
+  memoryCPUInterval: number;
+  // Undefined if network conditions shouldn't be emulated.
+  networkProfile?: NetworkProfile;
   output: Writable;
+  outputPath?: Path;
   preservePages: boolean;
+  repeat: number;
+  // Undefined if there are no user interactions to run after navigating to
+  // the URL.
+  scenario?: Scenario;
   seconds: number;
   timeout: number;
+  trace: boolean;
+  // The categories to record in Chrome traces. Undefined unless tracing
+  // a Chromium browser.
+  traceCategories?: string[];
+  trackerList?: TrackerList;
   url: URL;
-  userDataDir: Path;
+  // Undefined if no --user-data-dir was given, in which case each trial
+  // uses a new temporary user-data dir.
+  userDataDir?: Path;
   viewport: {
     height: number;
     width: number;
   };
 }
+
+// Values for building a run config, as they're written in files (e.g.,
+// a --config file, or the browser configurations in a plan file). These
+// use the same names as the fields in RunConfig, instead of the names of
+// the CLI arguments.
+export interface RunConfigValues {
+  args?: string[];
+  binary?: Path;
+  browser?: string;
+  cacheMode?: string;
+  consent?: string;
+  consentRules?: Path;
+  extensions?: Path[];
+  firefoxUserPrefs?: FirefoxUserPrefs;
+  har?: boolean;
+  loggingLevel?: string;
+  measurements?: string[];
+  memoryBackend?: string;
+  memoryCPUInterval?: number;
+  networkProfile?: {
+    name?: string;
+    latency?: number;
+    download?: number;
+    upload?: number;
+  };
+  output?: Path;
+  preservePages?: boolean;
+  record?: Path;
+  repeat?: number;
+  replay?: Path;
+  scenario?: Path;
+  seconds?: number;
+  timeout?: number;
+  trace?: boolean;
+  traceCategories?: string[];
+  trackerList?: Path;
+  url?: string;
+  userDataDir?: Path;
+  viewport?: {
+    height?: number;
+    width?: number;
+  };
+}